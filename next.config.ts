@@ -1,4 +1,7 @@
 import type { NextConfig } from 'next'
+import { checkProductAssets } from './src/lib/product/checkAssets'
+
+checkProductAssets()
 
 const nextConfig: NextConfig = {
   transpilePackages: ['three'],
@@ -0,0 +1,31 @@
+// Copies the Draco and Basis (KTX2) decoders that ship with three into
+// public/decoders so they're served from our own origin, at the exact
+// version of three we run. Runs on postinstall and again before every build,
+// so a build never ships without them; the output is gitignored. Exits
+// non-zero if three doesn't have one of the files.
+
+import { cpSync, existsSync, mkdirSync } from 'node:fs';
+import path from 'node:path';
+
+const root = path.resolve(import.meta.dirname, '..');
+const libs = path.join(root, 'node_modules/three/examples/jsm/libs');
+const out = path.join(root, 'public/decoders');
+
+const FILES = {
+  draco: ['draco/gltf/draco_decoder.js', 'draco/gltf/draco_decoder.wasm', 'draco/gltf/draco_wasm_wrapper.js'],
+  basis: ['basis/basis_transcoder.js', 'basis/basis_transcoder.wasm'],
+};
+
+const missing = Object.values(FILES).flat().filter((file) => !existsSync(path.join(libs, file)));
+if (missing.length) {
+  console.error(`Decoders missing from ${path.relative(root, libs)}/ (is three installed?):`);
+  for (const file of missing) console.error(`  ${file}`);
+  process.exit(1);
+}
+
+for (const [dir, files] of Object.entries(FILES)) {
+  mkdirSync(path.join(out, dir), { recursive: true });
+  for (const file of files) cpSync(path.join(libs, file), path.join(out, dir, path.basename(file)));
+}
+
+console.log(`decoders copied to ${path.relative(root, out)}/`);
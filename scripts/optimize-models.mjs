@@ -0,0 +1,173 @@
+// Compresses the source models in assets/models into public/models.
+//
+//   node scripts/optimize-models.mjs [--codec draco|meshopt] [--textures webp|ktx2|keep] [name.glb ...]
+//
+// Geometry: Draco by default. Meshopt is smaller to decode but quantizes into
+// node transforms, which shifts the local space the tape curl shader works in,
+// so only use it for models that aren't peeled.
+// Textures: WebP is the default, encoded with sharp (no system tools needed).
+// Colour maps stay full size at a lossy quality; data maps (normal, ORM) are
+// halved, which the eye doesn't catch on a phone. KTX2 is opt-in: pass
+// `--textures ktx2` with the `toktx` CLI from KTX-Software on PATH, which
+// encodes UASTC for data maps and ETC1S for colour; without toktx the script
+// fails rather than falling back. `keep` leaves the originals untouched.
+//
+// Node names and hierarchy are preserved (no flatten/join) because the scenes
+// look meshes up by name. Writes a size/triangle report to
+// assets/models/report.json.
+
+import { execFileSync, spawnSync } from 'node:child_process';
+import { existsSync, mkdtempSync, readFileSync, readdirSync, rmSync, statSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { NodeIO } from '@gltf-transform/core';
+import { ALL_EXTENSIONS, KHRTextureBasisu } from '@gltf-transform/extensions';
+import {
+  dedup,
+  draco,
+  getGLPrimitiveCount,
+  getTextureColorSpace,
+  meshopt,
+  prune,
+  textureCompress,
+} from '@gltf-transform/functions';
+import draco3d from 'draco3dgltf';
+import { MeshoptDecoder, MeshoptEncoder } from 'meshoptimizer';
+
+const root = path.resolve(import.meta.dirname, '..');
+const SRC = path.join(root, 'assets/models');
+const OUT = path.join(root, 'public/models');
+
+/* ─── Args ─── */
+
+const args = process.argv.slice(2);
+function flag(name, fallback) {
+  const i = args.indexOf(`--${name}`);
+  if (i === -1) return fallback;
+  const value = args[i + 1];
+  args.splice(i, 2);
+  return value;
+}
+const codec = flag('codec', 'draco');
+const textures = flag('textures', 'webp');
+if (!['draco', 'meshopt'].includes(codec)) throw new Error(`--codec must be draco or meshopt, got ${codec}`);
+if (!['webp', 'ktx2', 'keep'].includes(textures)) throw new Error(`--textures must be webp, ktx2 or keep, got ${textures}`);
+
+// Never fall back quietly: a "compressed" model that still ships its original images is the bug
+if (textures === 'ktx2' && spawnSync('toktx', ['--version']).error) {
+  throw new Error('--textures ktx2 needs toktx from KTX-Software on PATH; use --textures webp, or keep to skip textures');
+}
+const sharp = textures === 'webp'
+  ? (await import('sharp').catch(() => {
+    throw new Error('--textures webp needs sharp; run npm install, or pass --textures keep to skip textures');
+  })).default
+  : null;
+
+// WebP settings: colour maps keep their size, data maps are capped smaller
+const COLOR_SLOTS = /^(baseColor|emissive)/;
+const DATA_SLOTS = /^(?!baseColor|emissive)/;
+const COLOR_QUALITY = 80;
+const DATA_QUALITY = 85;
+const DATA_MAX_SIZE = 512;
+
+const files = args.length ? args : readdirSync(SRC).filter((f) => f.endsWith('.glb'));
+
+/* ─── Helpers ─── */
+
+function stats(doc, bytes) {
+  const r = doc.getRoot();
+  let triangles = 0;
+  for (const mesh of r.listMeshes()) for (const prim of mesh.listPrimitives()) triangles += getGLPrimitiveCount(prim);
+  const textureBytes = r.listTextures().reduce((sum, t) => sum + (t.getImage()?.byteLength ?? 0), 0);
+  return { bytes, triangles, textures: r.listTextures().length, textureBytes };
+}
+
+function kb(n) {
+  return `${(n / 1024).toFixed(1)} KB`;
+}
+
+async function toWebp(doc) {
+  await doc.transform(
+    textureCompress({ encoder: sharp, targetFormat: 'webp', slots: COLOR_SLOTS, quality: COLOR_QUALITY }),
+    textureCompress({
+      encoder: sharp,
+      targetFormat: 'webp',
+      slots: DATA_SLOTS,
+      quality: DATA_QUALITY,
+      resize: [DATA_MAX_SIZE, DATA_MAX_SIZE],
+    })
+  );
+}
+
+async function toKtx2(doc) {
+  const tmp = mkdtempSync(path.join(tmpdir(), 'ktx2-'));
+  try {
+    for (const [i, texture] of doc.getRoot().listTextures().entries()) {
+      const mime = texture.getMimeType();
+      if (mime === 'image/ktx2') continue;
+      const input = path.join(tmp, `${i}.${mime === 'image/png' ? 'png' : 'jpg'}`);
+      const output = path.join(tmp, `${i}.ktx2`);
+      writeFileSync(input, texture.getImage());
+
+      const srgb = getTextureColorSpace(texture) === 'srgb';
+      const encode = srgb
+        ? ['--encode', 'etc1s', '--clevel', '4', '--qlevel', '255', '--assign_oetf', 'srgb']
+        : ['--encode', 'uastc', '--uastc_quality', '2', '--zcmp', '19', '--assign_oetf', 'linear'];
+      execFileSync('toktx', ['--t2', '--genmipmap', ...encode, output, input], { stdio: 'inherit' });
+
+      texture.setImage(readFileSync(output)).setMimeType('image/ktx2');
+      if (texture.getURI()) texture.setURI(texture.getURI().replace(/\.\w+$/, '.ktx2'));
+    }
+    doc.createExtension(KHRTextureBasisu).setRequired(true);
+  } finally {
+    rmSync(tmp, { recursive: true, force: true });
+  }
+}
+
+/* ─── Run ─── */
+
+await MeshoptDecoder.ready;
+await MeshoptEncoder.ready;
+
+const io = new NodeIO()
+  .registerExtensions(ALL_EXTENSIONS)
+  .registerDependencies({
+    'draco3d.decoder': await draco3d.createDecoderModule(),
+    'draco3d.encoder': await draco3d.createEncoderModule(),
+    'meshopt.decoder': MeshoptDecoder,
+    'meshopt.encoder': MeshoptEncoder,
+  });
+
+// Merge into the previous report so optimizing one file keeps the others' rows
+const reportPath = path.join(SRC, 'report.json');
+const report = existsSync(reportPath) ? JSON.parse(readFileSync(reportPath, 'utf8')) : {};
+
+for (const file of files) {
+  const src = path.join(SRC, file);
+  const out = path.join(OUT, file);
+  const doc = await io.read(src);
+  const before = stats(doc, statSync(src).size);
+
+  await doc.transform(
+    dedup(),
+    // Leaves stay: empty nodes can be attachment points the scenes look up
+    prune({ keepLeaves: true, keepAttributes: true }),
+    codec === 'draco'
+      ? draco({ method: 'edgebreaker', quantizePosition: 14, quantizeNormal: 10, quantizeTexcoord: 12 })
+      : meshopt({ encoder: MeshoptEncoder, level: 'medium' })
+  );
+  if (textures === 'webp') await toWebp(doc);
+  else if (textures === 'ktx2') await toKtx2(doc);
+
+  await io.write(out, doc);
+  const after = stats(doc, statSync(out).size);
+  report[file] = { codec, textures, before, after };
+
+  console.log(
+    `${file}: ${kb(before.bytes)} → ${kb(after.bytes)} ` +
+    `(${Math.round((1 - after.bytes / before.bytes) * 100)}% smaller), ` +
+    `${after.triangles} triangles, ${after.textures} textures ${kb(before.textureBytes)} → ${kb(after.textureBytes)}`
+  );
+}
+
+writeFileSync(reportPath, `${JSON.stringify(report, null, 2)}\n`);
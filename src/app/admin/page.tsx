@@ -0,0 +1,11 @@
+import type { Metadata } from 'next'
+import RoadmapAdmin from '@/components/RoadmapAdmin'
+
+export const metadata: Metadata = {
+  title: 'Roadmap Admin',
+  robots: { index: false, follow: false },
+}
+
+export default function AdminPage() {
+  return <RoadmapAdmin />
+}
@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server';
+import { getAllowlistStatus } from '@/lib/allowlist';
+import { errorResponse } from '@/lib/mint/http';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(_req: Request, { params }: { params: Promise<{ address: string }> }) {
+  try {
+    const { address } = await params;
+    return NextResponse.json(await getAllowlistStatus(address), {
+      headers: { 'Cache-Control': 'no-store' },
+    });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
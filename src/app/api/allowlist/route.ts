@@ -0,0 +1,13 @@
+import { NextResponse } from 'next/server';
+import { getAllowlistRoot } from '@/lib/allowlist';
+import { errorResponse } from '@/lib/mint/http';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    return NextResponse.json(await getAllowlistRoot());
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
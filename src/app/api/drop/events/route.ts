@@ -0,0 +1,70 @@
+import { getDropSnapshot, onDropChanged } from '@/lib/drop/feed';
+
+export const dynamic = 'force-dynamic';
+
+// Re-check on this interval as well, which also keeps the connection alive. The local
+// ledger is held in this process's memory, so mints on other server instances aren't seen.
+const REFRESH_MS = 5000;
+
+export async function GET(req: Request) {
+  const encoder = new TextEncoder();
+  let cleanup = () => { };
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let lastKey = '';
+      let closed = false;
+      let phaseTimer: ReturnType<typeof setTimeout> | undefined;
+
+      async function push(force = false) {
+        if (closed) return;
+        try {
+          const snapshot = await getDropSnapshot();
+          // The client may have gone while the snapshot was loading
+          if (closed) return;
+
+          // Push the next phase change on time rather than up to REFRESH_MS late
+          clearTimeout(phaseTimer);
+          const until = snapshot.phase.until ? Date.parse(snapshot.phase.until) - Date.now() : Infinity;
+          if (until < REFRESH_MS) phaseTimer = setTimeout(() => { push(); }, Math.max(until, 0) + 50);
+
+          const key = `${snapshot.minted}:${snapshot.phase.phase}`;
+          if (!force && key === lastKey) {
+            controller.enqueue(encoder.encode(': keep-alive\n\n'));
+            return;
+          }
+          lastKey = key;
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(snapshot)}\n\n`));
+        } catch (err) {
+          console.error('Drop feed failed:', err);
+        }
+      }
+
+      const unsubscribe = onDropChanged(() => { push(); });
+      const timer = setInterval(() => { push(); }, REFRESH_MS);
+
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(timer);
+        clearTimeout(phaseTimer);
+        unsubscribe();
+        try { controller.close(); } catch (_) { /* already closed */ }
+      };
+      req.signal.addEventListener('abort', cleanup);
+
+      push(true);
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-store, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
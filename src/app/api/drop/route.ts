@@ -0,0 +1,10 @@
+import { NextResponse } from 'next/server';
+import { getDropSnapshot } from '@/lib/drop/feed';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  return NextResponse.json(await getDropSnapshot(), {
+    headers: { 'Cache-Control': 'no-store' },
+  });
+}
@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import { BodyTooLargeError, clientKey, createRateLimiter, readBodyLimited } from '@/lib/analytics/limits';
+import { AnalyticsLogFullError, appendEvents } from '@/lib/analytics/log';
+import { AnalyticsValidationError, parseEventBatch } from '@/lib/analytics/schema';
+
+export const dynamic = 'force-dynamic';
+
+// Enough for a full batch; anything bigger isn't from our client
+const MAX_BODY_BYTES = 32 * 1024;
+
+// A visitor sends a batch every few seconds at most. The global budget is
+// taken first so a forwarded address spoofed per request can't grow the
+// per-client map past it
+const overall = createRateLimiter(1200, 60_000);
+const perClient = createRateLimiter(30, 60_000, { maxKeys: 5000 });
+
+export async function POST(req: Request) {
+  // The client already stays quiet under Do Not Track; this catches anything that didn't
+  if (req.headers.get('DNT') === '1' || req.headers.get('Sec-GPC') === '1') {
+    return new NextResponse(null, { status: 204 });
+  }
+
+  if (!overall.take('*') || !perClient.take(clientKey(req))) {
+    return NextResponse.json(
+      { error: { code: 'rate_limited', message: 'Too many batches' } },
+      { status: 429, headers: { 'Retry-After': '60' } }
+    );
+  }
+
+  let text: string;
+  try {
+    text = await readBodyLimited(req, MAX_BODY_BYTES);
+  } catch (err) {
+    if (err instanceof BodyTooLargeError) {
+      return NextResponse.json({ error: { code: 'too_large', message: 'Batch too large' } }, { status: 413 });
+    }
+    throw err;
+  }
+
+  let body: unknown = null;
+  try { body = JSON.parse(text); } catch (_) { /* rejected as invalid below */ }
+
+  try {
+    await appendEvents(parseEventBatch(body));
+    return new NextResponse(null, { status: 204 });
+  } catch (err) {
+    if (err instanceof AnalyticsValidationError) {
+      return NextResponse.json({ error: { code: 'invalid_events', message: err.message } }, { status: 400 });
+    }
+    if (err instanceof AnalyticsLogFullError) {
+      console.error(err.message);
+      return NextResponse.json({ error: { code: 'log_full', message: 'Not accepting events' } }, { status: 507 });
+    }
+    throw err;
+  }
+}
@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server';
+import { getMintProvider, MintError } from '@/lib/mint';
+import { errorResponse, readJson } from '@/lib/mint/http';
+
+export async function POST(req: Request) {
+  try {
+    const { address } = await readJson<{ address: string }>(req);
+    if (address !== undefined && typeof address !== 'string') {
+      throw new MintError('invalid_address', 'Address must be a string');
+    }
+    const account = await getMintProvider().connect(address);
+    return NextResponse.json({ account });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { MintQuote, MintReceipt } from '@/lib/mint';
+
+/*
+ * The purchase end to end through the route handlers, against an in-memory
+ * local provider: connect → quote → mint → receipt.
+ */
+
+const ALICE = '0x' + 'a'.repeat(40);
+
+type Routes = {
+  connect: typeof import('./connect/route');
+  quote: typeof import('./quote/route');
+  mint: typeof import('./route');
+  receipt: typeof import('./receipts/[id]/route');
+};
+
+let routes: Routes;
+
+function post(body: unknown) {
+  return new Request('http://localhost/api/mint', { method: 'POST', body: JSON.stringify(body) });
+}
+
+async function quote(address: string, quantity: number) {
+  const res = await routes.quote.POST(post({ address, quantity }));
+  return { status: res.status, body: await res.json() as { quote: MintQuote; error: { code: string } } };
+}
+
+async function mint(quoteId: string) {
+  const res = await routes.mint.POST(post({ quoteId }));
+  return { status: res.status, body: await res.json() as { receipt: MintReceipt; error: { code: string } } };
+}
+
+beforeEach(async () => {
+  vi.stubEnv('MINT_PROVIDER', 'local');
+  vi.stubEnv('MINT_LEDGER_PATH', '');
+  vi.stubEnv('DROP_MAX_SUPPLY', '3');
+  vi.stubEnv('DROP_MAX_PER_TX', '3');
+  vi.stubEnv('DROP_PER_WALLET_CAP', '3');
+  // Public sale open now
+  vi.stubEnv('DROP_STARTS_AT', '2000-01-01T00:00:00Z');
+  vi.stubEnv('DROP_PUBLIC_STARTS_AT', '2000-01-02T00:00:00Z');
+  vi.stubEnv('DROP_ENDS_AT', '2999-01-01T00:00:00Z');
+  // Fresh config cache, provider and lock for every test
+  vi.resetModules();
+  const g = globalThis as { mintProvider?: unknown; mintLock?: unknown };
+  delete g.mintProvider;
+  delete g.mintLock;
+  routes = {
+    connect: await import('./connect/route'),
+    quote: await import('./quote/route'),
+    mint: await import('./route'),
+    receipt: await import('./receipts/[id]/route'),
+  };
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('/api/mint', () => {
+  it('runs a purchase from connect to receipt', async () => {
+    const connected = await routes.connect.POST(post({ address: ALICE }));
+    expect(connected.status).toBe(200);
+    expect((await connected.json()).account).toEqual({ address: ALICE, chainId: 'local' });
+
+    const q = await quote(ALICE, 2);
+    expect(q.status).toBe(200);
+    expect(q.body.quote).toMatchObject({ address: ALICE, quantity: 2, total: 50 });
+
+    const m = await mint(q.body.quote.id);
+    expect(m.status).toBe(201);
+    expect(m.body.receipt).toMatchObject({ address: ALICE, quantity: 2, tokenIds: [1, 2] });
+
+    const res = await routes.receipt.GET(new Request('http://localhost'), {
+      params: Promise.resolve({ id: m.body.receipt.id }),
+    });
+    expect(res.status).toBe(200);
+    expect((await res.json()).receipt).toEqual(m.body.receipt);
+  });
+
+  it('reports unknown receipts and quotes', async () => {
+    const res = await routes.receipt.GET(new Request('http://localhost'), { params: Promise.resolve({ id: 'nope' }) });
+    expect(res.status).toBe(404);
+    expect((await mint('nope')).body.error.code).toBe('quote_not_found');
+  });
+
+  it('rejects malformed requests', async () => {
+    const res = await routes.quote.POST(new Request('http://localhost', { method: 'POST', body: 'not json' }));
+    expect(res.status).toBe(400);
+    expect((await quote(ALICE, 0)).body.error.code).toBe('quantity_out_of_range');
+  });
+
+  it('refuses quotes and mints once supply is exhausted', async () => {
+    // Two quotes that each fit, but not together
+    const first = await quote(ALICE, 2);
+    const second = await quote('0x' + 'b'.repeat(40), 2);
+    expect((await mint(first.body.quote.id)).status).toBe(201);
+
+    const late = await mint(second.body.quote.id);
+    expect(late.status).toBe(409);
+    expect(late.body.error.code).toBe('exceeds_remaining_supply');
+    expect((await quote(ALICE, 2)).body.error.code).toBe('exceeds_remaining_supply');
+
+    expect((await mint((await quote(ALICE, 1)).body.quote.id)).status).toBe(201);
+    const soldOut = await quote(ALICE, 1);
+    expect(soldOut.status).toBe(409);
+    expect(soldOut.body.error.code).toBe('sold_out');
+  });
+});
@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { assertMintAllowed } from '@/lib/drop/limits';
+import { getMintProvider, MintError } from '@/lib/mint';
+import { errorResponse, readJson } from '@/lib/mint/http';
+
+const PROOF_NODE_RE = /^0x[0-9a-fA-F]{64}$/;
+
+export async function POST(req: Request) {
+  try {
+    const { address, quantity, proof } = await readJson<{ address: string; quantity: number; proof: string[] }>(req);
+    if (typeof address !== 'string' || typeof quantity !== 'number') {
+      throw new MintError('invalid_request', 'Expected { address, quantity, proof? }');
+    }
+    if (proof !== undefined && !(Array.isArray(proof) && proof.every((p) => typeof p === 'string' && PROOF_NODE_RE.test(p)))) {
+      throw new MintError('invalid_request', 'proof must be an array of 0x-prefixed 32-byte hex strings');
+    }
+    await assertMintAllowed(address, quantity, proof);
+    const quote = await getMintProvider().quote({ address, quantity, proof });
+    return NextResponse.json({ quote });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
@@ -0,0 +1,14 @@
+import { NextResponse } from 'next/server';
+import { getMintProvider, MintError } from '@/lib/mint';
+import { errorResponse } from '@/lib/mint/http';
+
+export async function GET(_req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const receipt = await getMintProvider().getReceipt(id);
+    if (!receipt) throw new MintError('receipt_not_found', 'Receipt not found');
+    return NextResponse.json({ receipt });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { getMintProvider, MintError } from '@/lib/mint';
+import { errorResponse } from '@/lib/mint/http';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(req: Request) {
+  try {
+    const address = new URL(req.url).searchParams.get('address');
+    if (!address || !/^0x[0-9a-fA-F]{40}$/.test(address)) {
+      throw new MintError('invalid_address', 'Expected ?address=0x…');
+    }
+    const receipts = await getMintProvider().listReceipts(address);
+    return NextResponse.json({ receipts }, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
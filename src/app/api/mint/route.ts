@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { notifyDropChanged } from '@/lib/drop/feed';
+import { assertMintAllowed, withMintLock } from '@/lib/drop/limits';
+import { getMintProvider, MintError } from '@/lib/mint';
+import { errorResponse, readJson } from '@/lib/mint/http';
+
+export async function POST(req: Request) {
+  try {
+    const { quoteId } = await readJson<{ quoteId: string }>(req);
+    if (typeof quoteId !== 'string') throw new MintError('invalid_request', 'Expected { quoteId }');
+
+    const provider = getMintProvider();
+    const receipt = await withMintLock(async () => {
+      const quote = await provider.getQuote(quoteId);
+      if (!quote) throw new MintError('quote_not_found', 'Quote not found');
+      // Re-check at mint time: supply, phase and the wallet's holdings may have moved since the quote
+      await assertMintAllowed(quote.address, quote.quantity, quote.proof);
+      return provider.mint({ quoteId });
+    });
+    notifyDropChanged();
+    return NextResponse.json({ receipt }, { status: 201 });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
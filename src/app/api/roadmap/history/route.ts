@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin/auth';
+import { errorResponse } from '@/lib/roadmap/http';
+import { getHistory } from '@/lib/roadmap/store';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(req: Request) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  try {
+    const history = (await getHistory()).map(({ version, savedAt, note }) => ({ version, savedAt, note }));
+    return NextResponse.json({ history }, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin/auth';
+import { errorResponse } from '@/lib/roadmap/http';
+import { rollbackRoadmap } from '@/lib/roadmap/store';
+
+export async function POST(req: Request) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  const body = await req.json().catch(() => null) as { version?: unknown } | null;
+  if (!body || typeof body.version !== 'number') {
+    return NextResponse.json({ error: { code: 'invalid_request', message: 'Expected { version }' } }, { status: 400 });
+  }
+
+  try {
+    const revision = await rollbackRoadmap(body.version);
+    if (!revision) {
+      return NextResponse.json({ error: { code: 'not_found', message: `Version ${body.version} is not in the history` } }, { status: 404 });
+    }
+    return NextResponse.json({ version: revision.version, roadmap: revision.roadmap });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin/auth';
+import { errorResponse } from '@/lib/roadmap/http';
+import { getCurrentRevision, saveRoadmap } from '@/lib/roadmap/store';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    const { version, roadmap } = await getCurrentRevision();
+    return NextResponse.json({ version, roadmap }, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
+
+export async function PUT(req: Request) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  try {
+    const body = await req.json().catch(() => null) as { roadmap?: unknown; baseVersion?: unknown; note?: unknown } | null;
+    if (!body || typeof body.baseVersion !== 'number') {
+      return NextResponse.json({ error: { code: 'invalid_request', message: 'Expected { roadmap, baseVersion }' } }, { status: 400 });
+    }
+    const note = typeof body.note === 'string' && body.note.trim() ? body.note.trim() : 'Edited in admin';
+    const revision = await saveRoadmap(body.roadmap, body.baseVersion, note);
+    return NextResponse.json({ version: revision.version, roadmap: revision.roadmap });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
@@ -1,5 +1,7 @@
 import type { Metadata } from 'next'
 import { Inter } from 'next/font/google'
+import { WalletProvider } from '@/lib/wallet/WalletProvider'
+import { site } from '@/lib/site'
 import './globals.css'
 
 const inter = Inter({
@@ -9,8 +11,27 @@ const inter = Inter({
 })
 
 export const metadata: Metadata = {
-  title: 'Bored Vape',
-  description: 'DON\'T PEEL — A limited drop',
+  metadataBase: site.url,
+  title: {
+    default: site.name,
+    template: `%s — ${site.name}`,
+  },
+  description: site.description,
+  alternates: {
+    canonical: '/',
+  },
+  openGraph: {
+    type: 'website',
+    url: '/',
+    siteName: site.name,
+    title: site.name,
+    description: site.description,
+  },
+  twitter: {
+    card: 'summary_large_image',
+    title: site.name,
+    description: site.description,
+  },
   icons: {
     icon: '/favicon.ico',
   },
@@ -28,7 +49,9 @@ export default function RootLayout({
         <meta name="theme-color" content="#0a0a0f" />
         <meta name="apple-mobile-web-app-status-bar-style" content="black-translucent" />
       </head>
-      <body>{children}</body>
+      <body>
+        <WalletProvider>{children}</WalletProvider>
+      </body>
     </html>
   )
 }
@@ -0,0 +1,56 @@
+import { readFile } from 'fs/promises'
+import path from 'path'
+import { ImageResponse } from 'next/og'
+import { site } from '@/lib/site'
+
+export const alt = `DON'T PEEL — ${site.name}`
+export const size = { width: 1200, height: 630 }
+export const contentType = 'image/png'
+
+export default async function OpengraphImage() {
+  const art = await readFile(path.join(process.cwd(), 'public/images/banana-card.png'))
+  const artSrc = `data:image/png;base64,${art.toString('base64')}`
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: '100%',
+          height: '100%',
+          display: 'flex',
+          flexDirection: 'column',
+          alignItems: 'center',
+          justifyContent: 'center',
+          background: '#E8E8E8',
+          position: 'relative',
+        }}
+      >
+        <img
+          src={artSrc}
+          width={560}
+          height={494}
+          alt=""
+          style={{ position: 'absolute', bottom: -40, borderRadius: 28, boxShadow: '0 30px 60px rgba(0,0,0,0.25)' }}
+        />
+        <div
+          style={{
+            position: 'absolute',
+            top: 48,
+            fontSize: 148,
+            fontWeight: 900,
+            letterSpacing: '-0.04em',
+            lineHeight: 0.9,
+            color: '#0f0f0f',
+            textTransform: 'uppercase',
+          }}
+        >
+          DON&apos;T PEEL
+        </div>
+        <div style={{ position: 'absolute', bottom: 28, right: 40, fontSize: 28, color: '#0f0f0f', opacity: 0.6 }}>
+          {site.name}
+        </div>
+      </div>
+    ),
+    size
+  )
+}
@@ -1,42 +1,160 @@
 'use client';
 
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import SceneCanvas from '@/components/SceneCanvas';
 import LandingPage from '@/components/LandingPage';
+import { prefetchModel } from '@/lib/graphics/models';
+import { getProduct } from '@/lib/product';
+import { track, type AnalyticsEvents } from '@/lib/analytics';
+import { introSkipReason, rememberIntroDone, writePhase, type PhaseHistoryState } from '@/lib/intro';
+import { go, isMounted, layerAnimation, settle, type Phase, type PhaseState } from '@/lib/intro/phases';
+import {
+  BANANA_VARIANTS,
+  DEFAULT_BANANA_VARIANT,
+  DEFAULT_TAPE_VARIANT,
+  TAPE_VARIANTS,
+  isVariantChoice,
+  randomBananaVariant,
+  randomTapeVariant,
+  resolveBananaVariant,
+  resolveTapeVariant,
+} from '@/lib/peel/variants';
+import type { DropSnapshot } from '@/lib/drop/types';
+import { DEV_RECORDINGS, devReplayFromLocation, saveDevRecording } from '@/lib/peel/devRecordings';
 
-type Phase = 'intro' | 'transition' | 'landing';
+type LandingVia = AnalyticsEvents['landing_reached']['via'];
 
 export default function Home() {
-  const [phase, setPhase] = useState<Phase>('intro');
+  // Null until the client has checked history, the URL and storage for a reason to skip the intro
+  const [phaseState, setPhaseState] = useState<PhaseState | null>(null);
+  const phase = phaseState?.phase ?? null;
+  // For callbacks that must keep one identity (SceneCanvas rebuilds when onTransition changes)
+  const phaseRef = useRef(phase);
+  const landingVia = useRef<LandingVia>('intro');
+  // Each return to the intro mounts a fresh scene with a different tape and banana
+  const [sceneKey, setSceneKey] = useState(0);
+  const [tapeVariant, setTapeVariant] = useState(DEFAULT_TAPE_VARIANT);
+  const [bananaVariant, setBananaVariant] = useState(DEFAULT_BANANA_VARIANT);
+  // Dev only: ?replay=last plays back a stored peel session
+  const [replay] = useState(devReplayFromLocation);
 
-  const handleTransition = useCallback(() => {
-    if (phase !== 'intro') return;
-    setPhase('transition');
+  useEffect(() => {
+    const reason = replay ? null : introSkipReason();
+    if (reason) landingVia.current = reason;
+    const start = reason ? 'landing' : 'intro';
+    writePhase(start, 'replace');
+    setPhaseState(go(null, start, { animate: false }));
+  }, [replay]);
+
+  useEffect(() => {
+    phaseRef.current = phase;
   }, [phase]);
 
-  // Unmount 3D after landing content has slid in
+  // First scene's looks: ?tape= / ?banana=, then the drop config. The scene
+  // swaps materials in place, so resolving after it has mounted is fine. The
+  // drop also names the landing product, whose model is fetched during the
+  // intro; it waits for the banana first.
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const tape = params.get('tape');
+    const banana = params.get('banana');
+    const apply = (drop?: Pick<DropSnapshot, 'tapeVariant' | 'bananaVariant'>) => {
+      setTapeVariant(resolveTapeVariant([tape, drop?.tapeVariant]));
+      setBananaVariant(resolveBananaVariant([banana, drop?.bananaVariant]));
+    };
+    const pinned = !!tape && !!banana && isVariantChoice(TAPE_VARIANTS, tape) && isVariantChoice(BANANA_VARIANTS, banana);
+    if (pinned) apply();
+
+    let cancelled = false;
+    fetch('/api/drop', { cache: 'no-store' })
+      .then((res) => (res.ok ? (res.json() as Promise<DropSnapshot>) : undefined))
+      .catch(() => undefined)
+      .then((drop) => {
+        if (cancelled) return;
+        if (!pinned) apply(drop);
+        if (drop) prefetchModel(getProduct(drop.product).model);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const enterIntro = useCallback(() => {
+    setTapeVariant((current) => randomTapeVariant(current.id));
+    setBananaVariant((current) => randomBananaVariant(current.id));
+    setSceneKey((k) => k + 1);
+    setPhaseState((s) => go(s, 'intro'));
+  }, []);
+
+  // Back from the landing page replays the intro; forward skips it again
   useEffect(() => {
-    if (phase !== 'transition') return;
-    const timer = setTimeout(() => setPhase('landing'), 1000);
+    function onPopState(e: PopStateEvent) {
+      // Anchor links inside the landing page add entries without our state
+      const next = (e.state as PhaseHistoryState | null)?.phase ?? 'landing';
+      if (next === 'intro') {
+        if (phaseRef.current !== 'intro') enterIntro();
+      } else {
+        landingVia.current = 'history';
+        setPhaseState((s) => go(s, 'landing'));
+      }
+    }
+    window.addEventListener('popstate', onPopState);
+    return () => window.removeEventListener('popstate', onPopState);
+  }, [enterIntro]);
+
+  const handleTransition = useCallback(() => {
+    if (phaseRef.current !== 'intro') return;
+    phaseRef.current = 'landing';
+    landingVia.current = 'intro';
+    if (!replay) {
+      rememberIntroDone();
+      writePhase('landing', 'push');
+    }
+    setPhaseState((s) => go(s, 'landing'));
+  }, [replay]);
+
+  const handlePeelAgain = useCallback(() => {
+    writePhase('intro', 'push');
+    enterIntro();
+  }, [enterIntro]);
+
+  // Once per phase, so a re-run effect (Strict Mode) doesn't double count
+  const trackedPhase = useRef<Phase | null>(null);
+  useEffect(() => {
+    if (!phase || replay || trackedPhase.current === phase) return;
+    trackedPhase.current = phase;
+    if (phase === 'intro') track('intro_shown', {});
+    else track('landing_reached', { via: landingVia.current });
+  }, [phase, replay]);
+
+  // Unmount the layer being left once its edge has played
+  useEffect(() => {
+    const edge = phaseState?.edge;
+    if (!edge) return;
+    const timer = setTimeout(() => setPhaseState((s) => (s?.edge === edge ? settle(s) : s)), edge.duration);
     return () => clearTimeout(timer);
-  }, [phase]);
+  }, [phaseState]);
 
   return (
     <div style={{ position: 'relative', width: '100vw', height: '100svh', overflow: 'hidden', background: '#E8E8E8' }}>
       {/* 3D Scene — stays behind, no fade, just keeps rendering the empty wall */}
-      {phase !== 'landing' && (
-        <div style={{ position: 'absolute', inset: 0, zIndex: 1 }}>
-          <SceneCanvas onTransition={handleTransition} />
+      {phaseState && isMounted(phaseState, 'intro') && (
+        <div style={{ position: 'absolute', inset: 0, zIndex: 1, animation: layerAnimation(phaseState, 'intro') }}>
+          <SceneCanvas
+            key={sceneKey}
+            onTransition={handleTransition}
+            tapeVariant={tapeVariant}
+            bananaVariant={bananaVariant}
+            replay={replay}
+            onRecording={DEV_RECORDINGS ? saveDevRecording : undefined}
+          />
         </div>
       )}
 
-      {/* Landing page — slides up over the 3D scene */}
-      {phase !== 'intro' && (
-        <div style={{
-          position: 'absolute', inset: 0, zIndex: 2,
-          animation: phase === 'transition' ? 'slideUpIn 0.8s cubic-bezier(0.16, 1, 0.3, 1) forwards' : undefined,
-        }}>
-          <LandingPage />
+      {/* Landing page — slides up over the 3D scene, and back down for "Peel again" */}
+      {phaseState && isMounted(phaseState, 'landing') && (
+        <div style={{ position: 'absolute', inset: 0, zIndex: 2, animation: layerAnimation(phaseState, 'landing') }}>
+          <LandingPage onPeelAgain={handlePeelAgain} />
         </div>
       )}
     </div>
@@ -0,0 +1,50 @@
+'use client';
+
+import { useState } from 'react';
+import Image from 'next/image';
+import s from './BananaFallback.module.css';
+
+interface BananaFallbackProps {
+  className?: string;
+  /**
+   * Makes the card a button that drops off screen and then calls this — the
+   * intro's way forward when there is no 3D scene to peel.
+   */
+  onActivate?: () => void;
+  /** Shown while the 3D context is gone but may come back. */
+  message?: string;
+}
+
+/** Stand-in for the 3D banana when WebGL is missing or its context was lost. */
+export default function BananaFallback({ className, onActivate, message }: BananaFallbackProps) {
+  const [dropping, setDropping] = useState(false);
+
+  const card = (
+    <Image
+      className={dropping ? s.cardDropping : s.card}
+      src="/images/banana-card.png"
+      alt={onActivate ? '' : 'A banana taped to a wall'}
+      width={700}
+      height={618}
+      priority
+      onAnimationEnd={() => { if (dropping) onActivate?.(); }}
+    />
+  );
+
+  return (
+    <div className={className ? `${s.root} ${className}` : s.root}>
+      {onActivate ? (
+        <button
+          type="button"
+          className={s.peelButton}
+          onClick={() => setDropping(true)}
+          disabled={dropping}
+          aria-label="Peel the tape off the banana"
+        >
+          {card}
+        </button>
+      ) : card}
+      {message && <p className={s.message}>{message}</p>}
+    </div>
+  );
+}
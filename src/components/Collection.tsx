@@ -0,0 +1,65 @@
+'use client';
+
+import Image from 'next/image';
+import { useReceipts } from '@/lib/mint/useReceipts';
+import type { MintReceipt } from '@/lib/mint/types';
+import s from './Collection.module.css';
+
+interface CollectionProps {
+  address: string | null;
+  /** Bumped by the mint box after a successful mint so the list refetches. */
+  refreshKey?: unknown;
+}
+
+function formatDate(iso: string) {
+  return new Date(iso).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+export default function Collection({ address, refreshKey }: CollectionProps) {
+  const { receipts, error } = useReceipts(address, refreshKey);
+  const tokens = receipts?.flatMap((r) => r.tokenIds.map((id) => ({ id, receipt: r }))) ?? [];
+
+  if (!address) {
+    return <p className={s.empty}>Connect a wallet to see your bananas.</p>;
+  }
+  if (error) {
+    return <p className={s.empty}>{error}</p>;
+  }
+  if (!receipts) {
+    return <p className={s.empty}>Loading...</p>;
+  }
+  if (receipts.length === 0) {
+    return <p className={s.empty}>Nothing here yet. <a href="#mint" className={s.link}>Mint one</a>.</p>;
+  }
+
+  return (
+    <div className={s.collection}>
+      <div className={s.grid}>
+        {tokens.map(({ id }) => (
+          <figure key={id} className={s.card}>
+            <Image
+              src="/images/banana-card.png"
+              alt={`Banana #${id}`}
+              width={700}
+              height={618}
+              sizes="(min-width: 768px) 160px, 40vw"
+              className={s.cardFace}
+            />
+            <figcaption className={s.cardId}>#{id}</figcaption>
+          </figure>
+        ))}
+      </div>
+
+      <ul className={s.receipts}>
+        {receipts.map((r: MintReceipt) => (
+          <li key={r.id} className={s.receipt}>
+            <span className={s.receiptQty}>{r.quantity} &times;</span>
+            <span className={s.receiptAmount}>{r.amountPaid} {r.currency}</span>
+            <span className={s.receiptDate}>{formatDate(r.createdAt)}</span>
+            <span className={s.receiptTx} title={r.txHash}>{r.txHash.slice(0, 10)}…</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
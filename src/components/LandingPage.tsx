@@ -2,19 +2,69 @@
 
 import { useState, useCallback, useEffect, useRef } from 'react';
 import ModelViewer from './ModelViewer';
+import Collection from './Collection';
+import SoundToggle from './SoundToggle';
+import * as mintApi from '@/lib/mint/client';
+import { mintErrorMessage } from '@/lib/mint/messages';
+import { useDropFeed } from '@/lib/drop/useDropFeed';
+import { useCountdown } from '@/lib/drop/useCountdown';
+import { PHASE_COPY, formatCountdown } from '@/lib/drop/phases';
+import { fetchAllowlistStatus, useAllowlist } from '@/lib/allowlist/useAllowlist';
+import { phaseHeading, type RoadmapItemStatus } from '@/lib/roadmap';
+import { useRoadmap } from '@/lib/roadmap/useRoadmap';
+import { getProduct } from '@/lib/product';
+import { track } from '@/lib/analytics';
+import { useWallet, truncateAddress } from '@/lib/wallet/WalletProvider';
+import { WalletError, type ConnectorId } from '@/lib/wallet/types';
+import type { MintReceipt } from '@/lib/mint/types';
 import s from './LandingPage.module.css';
 
-type MintStatus = 'idle' | 'connecting' | 'done';
+type MintStatus = 'idle' | 'connecting' | 'minting' | 'done' | 'error';
+type Section = 'mint' | 'roadmap' | 'collection';
 
-export default function LandingPage() {
+const CHECK_BOX: Record<RoadmapItemStatus, string> = {
+  done: s.checkBoxChecked,
+  'in-progress': s.checkBoxInProgress,
+  planned: s.checkBox,
+};
+
+interface LandingPageProps {
+  /** Menu action that goes back to the intro with a fresh tape. */
+  onPeelAgain?: () => void;
+}
+
+export default function LandingPage({ onPeelAgain }: LandingPageProps) {
   const [qty, setQty] = useState(1);
   const [menuOpen, setMenuOpen] = useState(false);
   const [mintStatus, setMintStatus] = useState<MintStatus>('idle');
-  const [currentSection, setCurrentSection] = useState<'mint' | 'roadmap'>('mint');
+  const [mintError, setMintError] = useState<string | null>(null);
+  const [receipt, setReceipt] = useState<MintReceipt | null>(null);
+  const [walletMenuOpen, setWalletMenuOpen] = useState(false);
+  const wallet = useWallet();
+  const drop = useDropFeed();
+  const roadmap = useRoadmap();
+  const allowlist = useAllowlist(wallet.address, receipt);
+  const soldPct = drop && drop.maxSupply > 0 ? (drop.minted / drop.maxSupply) * 100 : 0;
+  const phaseCopy = drop ? PHASE_COPY[drop.phase.phase] : null;
+  const countdownMs = useCountdown(phaseCopy?.countdown ? drop?.phase.until : null, drop?.serverTime);
+  const isPresale = drop?.phase.phase === 'allowlist';
+  // Waits for the drop rather than flashing the default product first
+  const product = drop ? getProduct(drop.product) : null;
+  // Mirrors the server's limits so the stepper never offers a quantity the mint route would reject
+  const maxQty = Math.max(1, Math.min(
+    drop?.maxPerTransaction ?? 1,
+    drop?.remaining ?? 1,
+    drop ? drop.perWalletCap - (allowlist?.minted ?? 0) : 1,
+    isPresale && allowlist ? allowlist.remaining : Infinity,
+  ));
+  const canMint = (phaseCopy?.canMint ?? false) && !(isPresale && allowlist && allowlist.remaining === 0);
+  const [currentSection, setCurrentSection] = useState<Section>('mint');
   const qtyRef = useRef<HTMLSpanElement>(null);
   const mintRef = useRef<HTMLElement>(null);
   const roadmapRef = useRef<HTMLElement>(null);
+  const collectionRef = useRef<HTMLElement>(null);
   const revealRefs = useRef<HTMLElement[]>([]);
+  const revealObserverRef = useRef<IntersectionObserver | null>(null);
   const phaseGridRef = useRef<HTMLDivElement>(null);
 
   // Escape key closes menu
@@ -36,13 +86,25 @@ export default function LandingPage() {
     return () => { document.body.style.overflow = ''; };
   }, [menuOpen]);
 
-  // Track which section is visible
+  // Deep links (/#roadmap) arrive before the section exists, so the browser's own jump misses it
+  useEffect(() => {
+    const id = decodeURIComponent(window.location.hash.slice(1));
+    if (id) document.getElementById(id)?.scrollIntoView();
+  }, []);
+
+  // Track which section is visible (and report each one's first view)
   useEffect(() => {
+    const viewed = new Set<Section>();
     const observer = new IntersectionObserver(
       (entries) => {
         entries.forEach((entry) => {
           if (entry.isIntersecting && entry.intersectionRatio > 0.5) {
-            setCurrentSection(entry.target.id as 'mint' | 'roadmap');
+            const section = entry.target.id as Section;
+            setCurrentSection(section);
+            if (!viewed.has(section)) {
+              viewed.add(section);
+              track('section_viewed', { section });
+            }
           }
         });
       },
@@ -51,6 +113,7 @@ export default function LandingPage() {
 
     if (mintRef.current) observer.observe(mintRef.current);
     if (roadmapRef.current) observer.observe(roadmapRef.current);
+    if (collectionRef.current) observer.observe(collectionRef.current);
 
     return () => observer.disconnect();
   }, []);
@@ -77,13 +140,19 @@ export default function LandingPage() {
     els.forEach((el) => {
       if (el) observer.observe(el);
     });
+    revealObserverRef.current = observer;
 
-    return () => observer.disconnect();
+    return () => {
+      observer.disconnect();
+      revealObserverRef.current = null;
+    };
   }, []);
 
   const addRevealRef = useCallback((el: HTMLElement | null) => {
     if (el && !revealRefs.current.includes(el)) {
       revealRefs.current.push(el);
+      // Elements mounted later (e.g. a roadmap phase added in the admin) still need revealing
+      revealObserverRef.current?.observe(el);
     }
   }, []);
 
@@ -143,19 +212,67 @@ export default function LandingPage() {
 
   const increment = useCallback(() => {
     setQty((q) => {
-      if (q < 20) { bounceQty(); return q + 1; }
+      if (q < maxQty) { bounceQty(); return q + 1; }
       return q;
     });
-  }, [bounceQty]);
+  }, [bounceQty, maxQty]);
 
-  const handleMint = useCallback(() => {
-    if (mintStatus !== 'idle') return;
-    setMintStatus('connecting');
-    setTimeout(() => {
+  // Pull qty back down if the cap shrinks (allocation used up, phase change)
+  useEffect(() => {
+    setQty((q) => Math.min(q, maxQty));
+  }, [maxQty]);
+
+  const handleMint = useCallback(async () => {
+    if (!canMint || mintStatus === 'connecting' || mintStatus === 'minting') return;
+    setMintError(null);
+    track('mint_clicked', { quantity: qty });
+    try {
+      let address = wallet.address;
+      if (!address) {
+        setMintStatus('connecting');
+        address = await wallet.connect();
+      }
+      setMintStatus('minting');
+      const account = await mintApi.connect(address);
+      // The presale quote needs this wallet's proof; the wallet may only just have connected
+      let proof: string[] | undefined;
+      if (isPresale) {
+        const status = await fetchAllowlistStatus(account.address).catch(() => null);
+        if (!status) {
+          throw new mintApi.MintRequestError('provider_error', 'Couldn’t check the allowlist — check your connection and try again.');
+        }
+        proof = status.proof;
+      }
+      const quote = await mintApi.quote(account.address, qty, proof);
+      setReceipt(await mintApi.mint(quote.id));
+      track('mint_succeeded', { quantity: qty });
       setMintStatus('done');
       setTimeout(() => setMintStatus('idle'), 2000);
-    }, 1200);
-  }, [mintStatus]);
+    } catch (err) {
+      track('mint_failed', {
+        code: err instanceof mintApi.MintRequestError ? err.code : err instanceof WalletError ? 'wallet' : 'unknown',
+      });
+      setMintError(err instanceof mintApi.MintRequestError
+        ? mintErrorMessage(err.code, err.message)
+        : err instanceof WalletError ? err.message : 'Mint failed, please try again');
+      setMintStatus('error');
+    }
+  }, [wallet, canMint, mintStatus, qty, isPresale]);
+
+  const handleWalletConnect = useCallback(async (connectorId?: ConnectorId) => {
+    setWalletMenuOpen(false);
+    try {
+      await wallet.connect(connectorId);
+    } catch (err) {
+      setMintError(err instanceof WalletError ? err.message : 'Could not connect wallet');
+    }
+  }, [wallet]);
+
+  const handleDisconnect = useCallback(() => {
+    setReceipt(null);
+    setMintError(null);
+    wallet.disconnect();
+  }, [wallet]);
 
   return (
     <div className={s.wrapper}>
@@ -172,7 +289,21 @@ export default function LandingPage() {
             <div className={s.rotatingWrap}>
               <div className={s.glowRing} />
               <div className={`${s.glowRing} ${s.glowRing2}`} />
-              <ModelViewer className={s.modelContainer} />
+              {product ? (
+                <ModelViewer
+                  key={product.id}
+                  className={s.modelContainer}
+                  src={product.model}
+                  scale={product.scale}
+                  autoRotateSpeed={product.autoRotateSpeed}
+                  lighting={product.lighting}
+                  orientation={product.orientation}
+                  poster={product.poster}
+                  hotspots={product.hotspots}
+                />
+              ) : (
+                <div className={s.modelContainer} />
+              )}
             </div>
           </div>
 
@@ -181,30 +312,45 @@ export default function LandingPage() {
             <div className={`${s.mintBox} ${s.reveal}`} ref={addRevealRef}>
               <div className={s.mintHeader}>
                 <div className={s.mintTitle}>Mint</div>
-                <div className={s.liveIndicator}>
+                <div className={canMint ? s.liveIndicator : s.liveIndicatorIdle}>
                   <span className={s.liveDot} />
-                  Not ready yet
+                  {phaseCopy?.indicator ?? 'Loading\u2026'}
                 </div>
               </div>
 
+              {phaseCopy?.countdown && countdownMs !== null && (
+                <div className={s.countdown}>
+                  <span className={s.countdownLabel}>{phaseCopy.countdown}</span>
+                  <span className={s.countdownValue}>{formatCountdown(countdownMs)}</span>
+                </div>
+              )}
+
               <div className={s.priceRow}>
                 <div className={s.priceBlock}>
                   <div className={s.priceLabel}>Price</div>
-                  <div className={s.priceVal}>25 USDC</div>
+                  <div className={s.priceVal}>{drop ? `${drop.price} ${drop.currency}` : '\u2014'}</div>
                 </div>
                 <div className={s.priceDivider} />
                 <div className={s.priceBlock}>
                   <div className={s.priceLabel}>Remaining</div>
-                  <div className={s.priceVal}>500 / 500</div>
+                  <div className={s.priceVal}>{drop ? `${drop.remaining} / ${drop.maxSupply}` : '\u2014'}</div>
                 </div>
               </div>
 
               <div className={s.progressWrap}>
                 <div className={s.progressBar}>
-                  <div className={s.progressFill} style={{ width: '0%' }} />
+                  <div className={s.progressFill} style={{ width: `${soldPct}%` }} />
                 </div>
               </div>
 
+              {isPresale && allowlist && (
+                <div className={allowlist.eligible ? s.eligibility : s.eligibilityNo}>
+                  {allowlist.eligible
+                    ? `Allowlisted \u00b7 ${allowlist.remaining} of ${allowlist.allocation} left`
+                    : 'This wallet is not on the allowlist'}
+                </div>
+              )}
+
               <div className={s.qtySelector}>
                 <button className={s.qtyBtn} onClick={decrement} aria-label="Decrease quantity">
                   &minus;
@@ -217,21 +363,29 @@ export default function LandingPage() {
 
               <button
                 className={
-                  mintStatus === 'connecting'
+                  mintStatus === 'connecting' || mintStatus === 'minting'
                     ? s.mintBtnConnecting
-                    : mintStatus === 'done'
+                    : mintStatus === 'done' || !canMint
                       ? s.mintBtnDone
                       : s.mintBtn
                 }
                 onClick={handleMint}
+                disabled={!canMint}
               >
-                {mintStatus === 'idle' && 'Connect Wallet & Mint'}
+                {mintStatus === 'idle' && (phaseCopy?.button ?? 'Connect Wallet & Mint')}
                 {mintStatus === 'connecting' && 'Connecting...'}
-                {mintStatus === 'done' && 'Coming soon \u2726'}
+                {mintStatus === 'minting' && 'Minting...'}
+                {mintStatus === 'done' && 'Minted \u2726'}
+                {mintStatus === 'error' && 'Try again'}
               </button>
 
-              <div className={s.note}>
-                Wallet integration coming soon.
+              <div className={mintError ? s.noteError : s.note} aria-live="polite">
+                {mintError
+                  ?? (receipt
+                    ? `Minted #${receipt.tokenIds.join(', #')} for ${receipt.amountPaid} ${receipt.currency}`
+                    : wallet.address
+                      ? `Connected as ${truncateAddress(wallet.address)}`
+                      : 'Connect a wallet to mint.')}
               </div>
             </div>
           </div>
@@ -246,102 +400,95 @@ export default function LandingPage() {
         </h1>
 
         <div className={s.phaseGrid} ref={phaseGridRef}>
-          <div
-            className={`${s.phaseCardActive} ${s.reveal}`}
-            ref={addRevealRef}
-            onMouseMove={handleCardMove}
-            onMouseLeave={handleCardLeave}
-            onTouchMove={handleCardTouchMove}
-            onTouchEnd={handleCardTouchEnd}
-          >
-            <div className={s.phaseLabelActive}>Phase 1 &mdash; (NOW)</div>
-
-            <div className={s.phaseDesc}>
-              <div className={s.checkItem}>
-                <div className={s.checkBoxChecked}>
-                  <svg className={s.checkMark} viewBox="0 0 12 12" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M2.5 6.5L5 9L9.5 3.5" /></svg>
+          {roadmap.phases.map((phase, i) => {
+            const active = phase.id === roadmap.activePhaseId;
+            return (
+              <div
+                key={phase.id}
+                className={`${active ? s.phaseCardActive : s.phaseCard} ${s.reveal}`}
+                ref={addRevealRef}
+                onMouseMove={handleCardMove}
+                onMouseLeave={handleCardLeave}
+                onTouchMove={handleCardTouchMove}
+                onTouchEnd={handleCardTouchEnd}
+              >
+                <div className={active ? s.phaseLabelActive : s.phaseLabel}>{phaseHeading(roadmap, i)}</div>
+
+                <div className={s.phaseDesc}>
+                  {phase.items.map((item) => (
+                    <div key={item.id} className={s.checkItem}>
+                      <div className={CHECK_BOX[item.status]} aria-hidden="true">
+                        {item.status === 'done' && (
+                          <svg className={s.checkMark} viewBox="0 0 12 12" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M2.5 6.5L5 9L9.5 3.5" /></svg>
+                        )}
+                      </div>
+                      <span className={item.status === 'done' ? s.checkLabelDone : s.checkLabel}>
+                        {item.link
+                          ? <a href={item.link} className={s.checkLink} target="_blank" rel="noopener noreferrer">{item.label}</a>
+                          : item.label}
+                        <span className={s.visuallyHidden}> ({item.status.replace('-', ' ')})</span>
+                      </span>
+                      {item.date && <span className={s.checkDate}>{item.date}</span>}
+                    </div>
+                  ))}
                 </div>
-                <span className={s.checkLabelDone}>Made By Ape brand license</span>
-              </div>
-              <div className={s.checkItem}>
-                <div className={s.checkBox} />
-                <span className={s.checkLabel}>Start Marketing</span>
-              </div>
-              <div className={s.checkItem}>
-                <div className={s.checkBox} />
-                <span className={s.checkLabel}>Select licensed manufacturing partner</span>
-              </div>
-              <div className={s.checkItem}>
-                <div className={s.checkBox} />
-                <span className={s.checkLabel}>Finalize some Merch designs and suppliers</span>
-              </div>
-              <div className={s.checkItem}>
-                <div className={s.checkBox} />
-                <span className={s.checkLabel}>Launch Utility NFT</span>
-              </div>
-            </div>
-          </div>
-
-          <div
-            className={`${s.phaseCard} ${s.reveal}`}
-            ref={addRevealRef}
-            onMouseMove={handleCardMove}
-            onMouseLeave={handleCardLeave}
-            onTouchMove={handleCardTouchMove}
-            onTouchEnd={handleCardTouchEnd}
-          >
-            <div className={s.phaseLabel}>Phase 2 &mdash; First Batch</div>
-            <div className={s.phaseDesc}>
-              <div className={s.checkItem}>
-                <div className={s.checkBox} />
-                <span className={s.checkLabel}>Simple disposable featuring Logo</span>
-              </div>
-            </div>
-          </div>
-
-          <div
-            className={`${s.phaseCard} ${s.reveal}`}
-            ref={addRevealRef}
-            onMouseMove={handleCardMove}
-            onMouseLeave={handleCardLeave}
-            onTouchMove={handleCardTouchMove}
-            onTouchEnd={handleCardTouchEnd}
-          >
-            <div className={s.phaseLabel}>Phase 3 &mdash; Second Batch</div>
-            <div className={s.phaseDesc}>
-              <div className={s.checkItem}>
-                <div className={s.checkBox} />
-                <span className={s.checkLabel}>Design a Tamagotchi-style smart vape</span>
-              </div>
-              <div className={s.checkItem}>
-                <div className={s.checkBox} />
-                <span className={s.checkLabel}>Interactive &amp; personal — not just static art</span>
               </div>
-              <div className={s.checkItem}>
-                <div className={s.checkBox} />
-                <span className={s.checkLabel}>Integrated with OpenClaw</span>
-              </div>
-              <div className={s.checkItem}>
-                <div className={s.checkBox} />
-                <span className={s.checkLabel}>Active users get airdropped (Seeker-style device)</span>
-              </div>
-            </div>
-          </div>
+            );
+          })}
         </div>
       </section>
 
+      {/* ═══ My Collection ═══ */}
+      <section id="collection" className={s.collectionSection} ref={collectionRef}>
+        <h1 className={`${s.headline} ${s.reveal}`} ref={addRevealRef}>
+          MY BANANAS
+        </h1>
+        <Collection address={wallet.address} refreshKey={receipt} />
+      </section>
+
       {/* ═══ Bottom Nav ═══ */}
       <nav className={s.bottomNav}>
         <a href="#mint" className={s.navBrand}>BoredVape</a>
         <div className={s.navLinks}>
-          {currentSection === 'mint'
-            ? <a href="#roadmap" className={s.navLink}>Roadmap</a>
-            : <a href="#mint" className={s.navLink}>Mint</a>
-          }
+          {currentSection !== 'mint' && <a href="#mint" className={s.navLink}>Mint</a>}
+          {currentSection !== 'roadmap' && <a href="#roadmap" className={s.navLink}>Roadmap</a>}
+          {currentSection !== 'collection' && <a href="#collection" className={s.navLink}>Collection</a>}
+        </div>
+        <div className={s.navRight}>
+          <SoundToggle showVolume />
+          {wallet.address ? (
+            <div className={s.accountChip}>
+              <span className={s.accountDot} />
+              <span className={s.accountAddress} title={wallet.address}>{truncateAddress(wallet.address)}</span>
+              <button className={s.accountDisconnect} onClick={handleDisconnect} aria-label="Disconnect wallet">
+                &times;
+              </button>
+            </div>
+          ) : wallet.status !== 'restoring' && wallet.connectors.length > 0 && (
+            <div className={s.walletPicker}>
+              <button
+                className={s.navMenu}
+                onClick={() => (wallet.connectors.length > 1 ? setWalletMenuOpen((o) => !o) : handleWalletConnect())}
+                disabled={wallet.status === 'connecting'}
+                aria-expanded={walletMenuOpen}
+              >
+                {wallet.status === 'connecting' ? 'Connecting...' : 'Connect'}
+              </button>
+              {walletMenuOpen && (
+                <div className={s.walletMenu} role="menu">
+                  {wallet.connectors.map((c) => (
+                    <button key={c.id} className={s.walletOption} role="menuitem" onClick={() => handleWalletConnect(c.id)}>
+                      {c.name}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+          <button className={s.navMenu} onClick={() => setMenuOpen(true)}>
+            Menu
+          </button>
         </div>
-        <button className={s.navMenu} onClick={() => setMenuOpen(true)}>
-          Menu
-        </button>
       </nav>
 
       {/* ═══ Menu Overlay ═══ */}
@@ -349,6 +496,19 @@ export default function LandingPage() {
         <div className={s.menuInner}>
           <a href="#mint" className={s.menuLink} onClick={() => setMenuOpen(false)}>Mint</a>
           <a href="#roadmap" className={s.menuLink} onClick={() => setMenuOpen(false)}>Roadmap</a>
+          <a href="#collection" className={s.menuLink} onClick={() => setMenuOpen(false)}>Collection</a>
+          {onPeelAgain && (
+            <button
+              type="button"
+              className={s.menuAction}
+              onClick={() => {
+                setMenuOpen(false);
+                onPeelAgain();
+              }}
+            >
+              Peel again
+            </button>
+          )}
         </div>
         <button className={s.menuClose} onClick={() => setMenuOpen(false)}>
           Close
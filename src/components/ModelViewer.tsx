@@ -1,23 +1,98 @@
 'use client';
 
-import { useEffect, useRef } from 'react';
+import { useEffect, useRef, useState, type KeyboardEvent } from 'react';
+import Image from 'next/image';
 import * as THREE from 'three';
-import { GLTFLoader } from 'three/addons/loaders/GLTFLoader.js';
+import { createRenderer, isWebGLAvailable, watchContextLoss } from '@/lib/graphics/webgl';
+import { FrameTimeMonitor, applyQualityTier, lowerTier, pickInitialTier } from '@/lib/graphics/quality';
+import { loadModel } from '@/lib/graphics/models';
+import { addLighting, type LightingPreset } from '@/lib/graphics/lighting';
+import type { ProductHotspot } from '@/lib/product/types';
+import BananaFallback from './BananaFallback';
+import styles from './ModelViewer.module.css';
+
+/* ─── Inspect mode ─── */
+
+const CAMERA_DISTANCE = 4;
+const MIN_DISTANCE = 2;
+const MAX_DISTANCE = 6.5;
+const DRAG_RADIANS_PER_PX = 0.01;
+const MAX_PITCH = THREE.MathUtils.degToRad(80);
+// Fling speed multiplier per second after release: e^-4, so it coasts ~1s
+const SPIN_DECAY = 4;
+const WHEEL_ZOOM_PER_PX = 0.0015;
+// A release this long after the last move is a stop, not a fling
+const FLING_WINDOW_MS = 80;
+// Less pointer travel than this is a click (closes the open callout)
+const CLICK_SLOP_PX = 4;
+
+/** Bridges the inspect UI into the scene closure. */
+interface InspectControls {
+  setActive: (on: boolean) => void;
+  reset: () => void;
+}
 
 interface ModelViewerProps {
   className?: string;
+  /** GLB under public/. */
+  src?: string;
+  /** Size of the model's longest side in scene units (the camera sits 4 units away). */
+  scale?: number;
+  /** Degrees per second while idle; 0 holds the initial orientation. */
+  autoRotateSpeed?: number;
+  lighting?: LightingPreset;
+  /** Euler rotation in degrees applied to the model before any spinning. */
+  orientation?: [number, number, number];
+  /** Image shown while the model loads, and instead of it without WebGL. */
+  poster?: string;
+  /** Annotations shown in inspect mode, anchored in the model's GLB coordinates. */
+  hotspots?: ProductHotspot[];
 }
 
-export default function ModelViewer({ className }: ModelViewerProps) {
+export default function ModelViewer({
+  className,
+  src = '/models/banana.glb',
+  scale = 2.2,
+  autoRotateSpeed = 36,
+  lighting = 'studio',
+  orientation,
+  poster,
+  hotspots,
+}: ModelViewerProps) {
+  // Primitive deps, so a fresh array literal each render doesn't rebuild the scene
+  const [orientX, orientY, orientZ] = orientation ?? [0, 0, 0];
   const containerRef = useRef<HTMLDivElement>(null);
+  const [glState, setGlState] = useState<'ok' | 'unavailable' | 'lost'>('ok');
+  const [loadState, setLoadState] = useState<'loading' | 'ready' | 'error'>('loading');
+  const [loadProgress, setLoadProgress] = useState<number | null>(null);
+  const retryLoadRef = useRef<(() => void) | null>(null);
+  const [inspecting, setInspecting] = useState(false);
+  const [openHotspot, setOpenHotspot] = useState<string | null>(null);
+  const inspectRef = useRef<InspectControls | null>(null);
+  const hotspotsRef = useRef<ProductHotspot[]>([]);
+  const hotspotEls = useRef(new Map<string, HTMLDivElement>());
+
+  useEffect(() => {
+    hotspotsRef.current = hotspots ?? [];
+  }, [hotspots]);
 
   useEffect(() => {
     const container = containerRef.current;
     if (!container) return;
 
+    let tier = pickInitialTier(window.innerWidth);
+    const created = isWebGLAvailable() ? createRenderer(tier, { alpha: true }) : null;
+    if (!created) {
+      setGlState('unavailable');
+      return;
+    }
+    const renderer = created;
+
     let disposed = false;
+    let contextLost = false;
     let animFrameId: number;
     let autoRotate = true;
+    const frameMonitor = new FrameTimeMonitor();
 
     // Scene
     const scene = new THREE.Scene();
@@ -27,32 +102,34 @@ export default function ModelViewer({ className }: ModelViewerProps) {
       0.1,
       100
     );
-    camera.position.set(0, 0, 4);
+    camera.position.set(0, 0, CAMERA_DISTANCE);
 
-    const renderer = new THREE.WebGLRenderer({ antialias: true, alpha: true });
     renderer.setSize(container.clientWidth, container.clientHeight);
-    renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2));
     renderer.toneMapping = THREE.ACESFilmicToneMapping;
     renderer.toneMappingExposure = 1.0;
     container.appendChild(renderer.domElement);
+    applyQualityTier(renderer, scene, tier);
 
-    // Lighting — product-style
-    scene.add(new THREE.AmbientLight(0xffffff, 0.6));
-
-    const keyLight = new THREE.DirectionalLight(0xffffff, 1.4);
-    keyLight.position.set(3, 4, 5);
-    scene.add(keyLight);
-
-    const fillLight = new THREE.DirectionalLight(0xccccff, 0.5);
-    fillLight.position.set(-3, 2, 3);
-    scene.add(fillLight);
+    const stopWatchingContext = watchContextLoss(renderer.domElement, {
+      onLost() {
+        contextLost = true;
+        cancelAnimationFrame(animFrameId);
+        setGlState('lost');
+      },
+      onRestored() {
+        contextLost = false;
+        setGlState('ok');
+        applyQualityTier(renderer, scene, tier);
+        clock.getDelta();
+        animate();
+      },
+    });
 
-    const rimLight = new THREE.DirectionalLight(0xffffff, 0.8);
-    rimLight.position.set(0, -2, -4);
-    scene.add(rimLight);
+    addLighting(scene, lighting);
 
     // Model
     let model: THREE.Group | null = null;
+    let content: THREE.Object3D | null = null;
     const clock = new THREE.Clock();
 
     // Mouse interaction state
@@ -64,50 +141,151 @@ export default function ModelViewer({ className }: ModelViewerProps) {
     let currentRotX = 0;
     let autoAngle = 0;
 
-    new GLTFLoader().load(
-      '/models/e_cigarette.glb',
-      (gltf) => {
+    // Inspect state: drag sets the rotation directly, release leaves a decaying spin
+    let inspecting = false;
+    let resetting = false;
+    let spinYaw = 0;
+    let spinPitch = 0;
+    let targetDistance = CAMERA_DISTANCE;
+    const pointers = new Map<number, { x: number; y: number }>();
+    let pinchSpread = 0;
+    let lastMoveTime = 0;
+    let travel = 0;
+    const anchor = new THREE.Vector3();
+
+    function load() {
+      setLoadState('loading');
+      setLoadProgress(null);
+      let shownPercent: number | null = null;
+
+      loadModel(src, {
+        renderer,
+        onProgress(fraction) {
+          const percent = fraction === null ? null : Math.round(fraction * 100);
+          if (disposed || percent === shownPercent) return;
+          shownPercent = percent;
+          setLoadProgress(percent);
+        },
+      }).then((gltf) => {
         if (disposed) return;
-        model = gltf.scene;
+        content = gltf.scene;
+        content.rotation.set(
+          THREE.MathUtils.degToRad(orientX),
+          THREE.MathUtils.degToRad(orientY),
+          THREE.MathUtils.degToRad(orientZ)
+        );
+
+        // Spin happens on a pivot so it composes with the initial orientation
+        model = new THREE.Group();
+        model.add(content);
 
         // Auto-center and scale
         const box = new THREE.Box3().setFromObject(model);
         const size = box.getSize(new THREE.Vector3());
         const center = box.getCenter(new THREE.Vector3());
 
-        model.position.sub(center);
+        content.position.sub(center);
 
         const maxDim = Math.max(size.x, size.y, size.z);
-        const scale = 2.2 / maxDim;
-        model.scale.setScalar(scale);
+        model.scale.setScalar(scale / maxDim);
 
         scene.add(model);
+        setLoadState('ready');
+      }, (err) => {
+        if (disposed) return;
+        console.error(`Failed to load ${src}:`, err);
+        setLoadState('error');
+      });
+    }
+    load();
+    retryLoadRef.current = load;
 
-        // Hide loading indicator
-        const loadingEl = container.querySelector('[data-loading]');
-        if (loadingEl) (loadingEl as HTMLElement).style.display = 'none';
-      },
-      undefined,
-      (err) => {
-        console.error('Failed to load e_cigarette.glb:', err);
+    function clampPitch(pitch: number) {
+      return THREE.MathUtils.clamp(pitch, -MAX_PITCH, MAX_PITCH);
+    }
+
+    function zoomBy(factor: number) {
+      targetDistance = THREE.MathUtils.clamp(targetDistance * factor, MIN_DISTANCE, MAX_DISTANCE);
+    }
+
+    function reset() {
+      // Unwind to the nearest front-facing turn instead of spinning back through every lap
+      currentRotY = Math.atan2(Math.sin(currentRotY), Math.cos(currentRotY));
+      spinYaw = 0;
+      spinPitch = 0;
+      resetting = true;
+    }
+
+    function setActive(on: boolean) {
+      if (on === inspecting) return;
+      inspecting = on;
+      resetting = false;
+      spinYaw = 0;
+      spinPitch = 0;
+      pointers.clear();
+      if (!on) {
+        // Auto-rotate picks up from wherever the user left it
+        targetDistance = CAMERA_DISTANCE;
+        autoRotate = true;
+        autoAngle = currentRotY;
       }
-    );
+    }
+
+    inspectRef.current = { setActive, reset };
+
+    function placeHotspots() {
+      if (!model || !content || !container) return;
+      const w = container.clientWidth;
+      const h = container.clientHeight;
+      const pivotDepth = camera.position.distanceTo(model.position);
+
+      for (const spot of hotspotsRef.current) {
+        const el = hotspotEls.current.get(spot.id);
+        if (!el) continue;
+        anchor.fromArray(spot.position).applyMatrix4(content.matrixWorld);
+        const depth = anchor.distanceTo(camera.position);
+        anchor.project(camera);
+        el.style.transform = `translate(${((anchor.x + 1) / 2) * w}px, ${((1 - anchor.y) / 2) * h}px)`;
+        // Cheap occlusion: anchors on the far side of the model's centre are behind it
+        el.dataset.behind = String(depth > pivotDepth + 0.05);
+      }
+    }
 
     // Animation loop
     function animate() {
-      if (disposed) return;
+      if (disposed || contextLost) return;
       animFrameId = requestAnimationFrame(animate);
 
-      const dt = Math.min(clock.getDelta(), 1 / 30);
+      const frameDt = clock.getDelta();
+      if (frameMonitor.sample(frameDt) && tier !== 'low') {
+        tier = lowerTier(tier);
+        applyQualityTier(renderer, scene, tier);
+      }
+      const dt = Math.min(frameDt, 1 / 30);
 
       if (model) {
-        if (autoRotate) {
-          // 10 seconds per revolution
-          autoAngle += ((Math.PI * 2) / 10) * dt;
+        if (inspecting) {
+          if (resetting) {
+            currentRotY += (0 - currentRotY) * 0.12;
+            currentRotX += (0 - currentRotX) * 0.12;
+            targetDistance = CAMERA_DISTANCE;
+            if (Math.abs(currentRotY) < 1e-3 && Math.abs(currentRotX) < 1e-3) resetting = false;
+          } else if (pointers.size === 0) {
+            currentRotY += spinYaw * dt;
+            currentRotX = clampPitch(currentRotX + spinPitch * dt);
+            const decay = Math.exp(-SPIN_DECAY * dt);
+            spinYaw *= decay;
+            spinPitch *= decay;
+          }
+          model.rotation.y = currentRotY;
+          model.rotation.x = currentRotX;
+        } else if (autoRotate) {
+          autoAngle += THREE.MathUtils.degToRad(autoRotateSpeed) * dt;
           model.rotation.y = autoAngle;
-          model.rotation.x = 0;
           currentRotY = autoAngle;
-          currentRotX = 0;
+          // Eases out of an inspect-mode tilt rather than snapping flat
+          currentRotX += (0 - currentRotX) * 0.08;
+          model.rotation.x = currentRotX;
         } else {
           // Mouse-driven rotation
           targetRotY = mouseX * Math.PI;
@@ -119,12 +297,17 @@ export default function ModelViewer({ className }: ModelViewerProps) {
         }
       }
 
+      camera.position.z += (targetDistance - camera.position.z) * 0.15;
+
       renderer.render(scene, camera);
+      // After render, so matrixWorld is this frame's
+      if (inspecting) placeHotspots();
     }
     animate();
 
     // Mouse events
     function onMouseEnter() {
+      if (inspecting) return;
       autoRotate = false;
     }
 
@@ -136,13 +319,14 @@ export default function ModelViewer({ className }: ModelViewerProps) {
     }
 
     function onMouseLeave() {
+      if (inspecting) return;
       autoRotate = true;
       autoAngle = currentRotY;
     }
 
     // Touch events
     function onTouchMove(e: TouchEvent) {
-      if (e.touches.length === 0 || !container) return;
+      if (e.touches.length === 0 || !container || inspecting) return;
       autoRotate = false;
       const touch = e.touches[0];
       const rect = container.getBoundingClientRect();
@@ -151,10 +335,94 @@ export default function ModelViewer({ className }: ModelViewerProps) {
     }
 
     function onTouchEnd() {
+      if (inspecting) return;
       autoRotate = true;
       autoAngle = currentRotY;
     }
 
+    // Inspect: drag to rotate, pinch or wheel to zoom, double-click to reset
+    function pointerSpread() {
+      const [a, b] = [...pointers.values()];
+      return Math.hypot(a.x - b.x, a.y - b.y);
+    }
+
+    function onPointerDown(e: PointerEvent) {
+      if (!inspecting) return;
+      renderer.domElement.setPointerCapture(e.pointerId);
+      pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+      resetting = false;
+      spinYaw = 0;
+      spinPitch = 0;
+      lastMoveTime = performance.now();
+      if (pointers.size === 1) travel = 0;
+      if (pointers.size === 2) pinchSpread = pointerSpread();
+    }
+
+    function onPointerMove(e: PointerEvent) {
+      const prev = pointers.get(e.pointerId);
+      if (!prev) return;
+      const dx = e.clientX - prev.x;
+      const dy = e.clientY - prev.y;
+      prev.x = e.clientX;
+      prev.y = e.clientY;
+      travel += Math.hypot(dx, dy);
+
+      if (pointers.size >= 2) {
+        const spread = pointerSpread();
+        if (pinchSpread > 0 && spread > 0) zoomBy(pinchSpread / spread);
+        pinchSpread = spread;
+        return;
+      }
+
+      const now = performance.now();
+      const elapsed = Math.max((now - lastMoveTime) / 1000, 1 / 240);
+      lastMoveTime = now;
+      const yaw = dx * DRAG_RADIANS_PER_PX;
+      const pitch = dy * DRAG_RADIANS_PER_PX;
+      currentRotY += yaw;
+      currentRotX = clampPitch(currentRotX + pitch);
+      // Smoothed so one jittery event doesn't decide the fling
+      spinYaw = spinYaw * 0.5 + (yaw / elapsed) * 0.5;
+      spinPitch = spinPitch * 0.5 + (pitch / elapsed) * 0.5;
+    }
+
+    function onPointerUp(e: PointerEvent) {
+      if (!pointers.delete(e.pointerId)) return;
+      if (pointers.size < 2) pinchSpread = 0;
+      if (pointers.size > 0) {
+        // Finishing a pinch shouldn't fling
+        spinYaw = 0;
+        spinPitch = 0;
+        return;
+      }
+      if (performance.now() - lastMoveTime > FLING_WINDOW_MS) {
+        spinYaw = 0;
+        spinPitch = 0;
+      }
+      if (travel < CLICK_SLOP_PX) setOpenHotspot(null);
+    }
+
+    function onWheel(e: WheelEvent) {
+      if (!inspecting) return;
+      e.preventDefault();
+      resetting = false;
+      // deltaMode 1 is lines (Firefox with a mouse wheel)
+      const px = e.deltaMode === 1 ? e.deltaY * 16 : e.deltaY;
+      zoomBy(Math.exp(px * WHEEL_ZOOM_PER_PX));
+    }
+
+    function onDoubleClick() {
+      if (inspecting) reset();
+    }
+
+    const canvas = renderer.domElement;
+    canvas.addEventListener('pointerdown', onPointerDown);
+    canvas.addEventListener('pointermove', onPointerMove);
+    canvas.addEventListener('pointerup', onPointerUp);
+    canvas.addEventListener('pointercancel', onPointerUp);
+    canvas.addEventListener('dblclick', onDoubleClick);
+    container.addEventListener('wheel', onWheel, { passive: false });
+
     container.addEventListener('mouseenter', onMouseEnter);
     container.addEventListener('mousemove', onMouseMove);
     container.addEventListener('mouseleave', onMouseLeave);
@@ -179,12 +447,24 @@ export default function ModelViewer({ className }: ModelViewerProps) {
       disposed = true;
       cancelAnimationFrame(animFrameId);
 
+      canvas.removeEventListener('pointerdown', onPointerDown);
+      canvas.removeEventListener('pointermove', onPointerMove);
+      canvas.removeEventListener('pointerup', onPointerUp);
+      canvas.removeEventListener('pointercancel', onPointerUp);
+      canvas.removeEventListener('dblclick', onDoubleClick);
+      container.removeEventListener('wheel', onWheel);
       container.removeEventListener('mouseenter', onMouseEnter);
       container.removeEventListener('mousemove', onMouseMove);
       container.removeEventListener('mouseleave', onMouseLeave);
       container.removeEventListener('touchmove', onTouchMove);
       container.removeEventListener('touchend', onTouchEnd);
       resizeObserver.disconnect();
+      stopWatchingContext();
+      retryLoadRef.current = null;
+      inspectRef.current = null;
+      // The rebuilt scene starts outside inspect mode
+      setInspecting(false);
+      setOpenHotspot(null);
 
       renderer.dispose();
       scene.traverse((obj) => {
@@ -200,30 +480,132 @@ export default function ModelViewer({ className }: ModelViewerProps) {
         container.removeChild(renderer.domElement);
       }
     };
-  }, []);
+  }, [src, scale, autoRotateSpeed, lighting, orientX, orientY, orientZ]);
+
+  function toggleInspect(on: boolean) {
+    setInspecting(on);
+    setOpenHotspot(null);
+    inspectRef.current?.setActive(on);
+  }
+
+  function onKeyDown(e: KeyboardEvent) {
+    if (e.key !== 'Escape') return;
+    if (openHotspot) setOpenHotspot(null);
+    else if (inspecting) toggleInspect(false);
+  }
+
+  const canInspect = glState === 'ok' && loadState === 'ready';
 
   return (
     <div
       ref={containerRef}
       className={className}
       style={{ width: '100%', height: '100%', position: 'relative', touchAction: 'none' }}
+      onKeyDown={onKeyDown}
     >
-      <div
-        data-loading
-        style={{
-          position: 'absolute',
-          inset: 0,
-          display: 'flex',
-          alignItems: 'center',
-          justifyContent: 'center',
-          color: 'rgba(255,255,255,0.4)',
-          fontSize: '0.75rem',
-          letterSpacing: '0.2em',
-          textTransform: 'uppercase',
-        }}
-      >
-        Loading...
-      </div>
+      {poster && (loadState !== 'ready' || glState !== 'ok') && (
+        <Image
+          src={poster}
+          alt=""
+          fill
+          sizes="200px"
+          style={{ objectFit: 'contain', opacity: glState === 'ok' ? 0.35 : 1 }}
+        />
+      )}
+      {!poster && glState !== 'ok' && (
+        <BananaFallback message={glState === 'lost' ? 'Paused' : undefined} />
+      )}
+      {glState !== 'unavailable' && loadState !== 'ready' && (
+        <div
+          role={loadState === 'error' ? 'alert' : 'status'}
+          style={{
+            position: 'absolute',
+            inset: 0,
+            display: 'flex',
+            flexDirection: 'column',
+            gap: '0.75rem',
+            alignItems: 'center',
+            justifyContent: 'center',
+            color: 'rgba(255,255,255,0.4)',
+            fontSize: '0.75rem',
+            letterSpacing: '0.2em',
+            textTransform: 'uppercase',
+          }}
+        >
+          {loadState === 'loading' ? (
+            <>Loading...{loadProgress !== null && ` ${loadProgress}%`}</>
+          ) : (
+            <>
+              Model unavailable
+              <button
+                type="button"
+                onClick={() => retryLoadRef.current?.()}
+                style={{
+                  padding: '0.4rem 0.9rem',
+                  border: '1px solid rgba(255,255,255,0.3)',
+                  borderRadius: 999,
+                  background: 'transparent',
+                  color: 'rgba(255,255,255,0.8)',
+                  font: 'inherit',
+                  letterSpacing: 'inherit',
+                  cursor: 'pointer',
+                }}
+              >
+                Retry
+              </button>
+            </>
+          )}
+        </div>
+      )}
+      {canInspect && inspecting && hotspots?.map((spot) => {
+        const open = openHotspot === spot.id;
+        const calloutId = `hotspot-${spot.id}`;
+        return (
+          <div
+            key={spot.id}
+            className={styles.hotspot}
+            ref={(el) => {
+              if (el) hotspotEls.current.set(spot.id, el);
+              else hotspotEls.current.delete(spot.id);
+            }}
+          >
+            <button
+              type="button"
+              className={styles.hotspotDot}
+              aria-label={spot.title}
+              aria-expanded={open}
+              aria-controls={open ? calloutId : undefined}
+              onClick={() => setOpenHotspot(open ? null : spot.id)}
+            />
+            {open && (
+              <div id={calloutId} role="note" className={styles.callout}>
+                <p className={styles.calloutTitle}>{spot.title}</p>
+                {spot.body && <p className={styles.calloutBody}>{spot.body}</p>}
+              </div>
+            )}
+          </div>
+        );
+      })}
+      {canInspect && (
+        <div className={styles.controls}>
+          {inspecting && (
+            <button type="button" className={styles.button} onClick={() => inspectRef.current?.reset()}>
+              Reset
+            </button>
+          )}
+          <button
+            type="button"
+            className={styles.button}
+            aria-pressed={inspecting}
+            onClick={() => toggleInspect(!inspecting)}
+          >
+            {inspecting ? 'Done' : 'Inspect'}
+          </button>
+        </div>
+      )}
+      {inspecting && (
+        <p className={styles.hint}>Drag to turn · pinch or scroll to zoom · double-click to reset</p>
+      )}
     </div>
   );
 }
@@ -0,0 +1,247 @@
+'use client';
+
+import { useState, useCallback, useEffect } from 'react';
+import { phaseHeading, type Roadmap, type RoadmapItemStatus } from '@/lib/roadmap';
+import s from './RoadmapAdmin.module.css';
+
+const TOKEN_KEY = 'bv.adminToken';
+
+const NEXT_STATUS: Record<RoadmapItemStatus, RoadmapItemStatus> = {
+  planned: 'in-progress',
+  'in-progress': 'done',
+  done: 'planned',
+};
+
+const STATUS_CLASS: Record<RoadmapItemStatus, string> = {
+  planned: s.statusPlanned,
+  'in-progress': s.statusInProgress,
+  done: s.statusDone,
+};
+
+interface Revision {
+  version: number;
+  savedAt: string;
+  note: string;
+}
+
+async function api<T>(url: string, token: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, {
+    ...init,
+    cache: 'no-store',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}`, ...init?.headers },
+  });
+  const body = await res.json().catch(() => null);
+  if (!res.ok) throw new Error(body?.error?.message ?? `Request failed (${res.status})`);
+  return body as T;
+}
+
+export default function RoadmapAdmin() {
+  const [token, setToken] = useState<string | null>(null);
+  const [tokenInput, setTokenInput] = useState('');
+  const [saved, setSaved] = useState<{ version: number; roadmap: Roadmap } | null>(null);
+  const [draft, setDraft] = useState<Roadmap | null>(null);
+  const [history, setHistory] = useState<Revision[]>([]);
+  const [note, setNote] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<{ kind: 'ok' | 'error'; text: string } | null>(null);
+
+  const dirty = !!saved && !!draft && JSON.stringify(saved.roadmap) !== JSON.stringify(draft);
+
+  const load = useCallback(async (t: string) => {
+    setBusy(true);
+    try {
+      // History is auth-only, so fetching it doubles as the token check
+      const [{ history: h }, current] = await Promise.all([
+        api<{ history: Revision[] }>('/api/roadmap/history', t),
+        api<{ version: number; roadmap: Roadmap }>('/api/roadmap', t),
+      ]);
+      setHistory(h);
+      setSaved(current);
+      setDraft(current.roadmap);
+      setToken(t);
+      sessionStorage.setItem(TOKEN_KEY, t);
+      setMessage(null);
+    } catch (err) {
+      sessionStorage.removeItem(TOKEN_KEY);
+      setToken(null);
+      setMessage({ kind: 'error', text: (err as Error).message });
+    } finally {
+      setBusy(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    const stored = sessionStorage.getItem(TOKEN_KEY);
+    if (stored) load(stored);
+  }, [load]);
+
+  const apply = useCallback((result: { version: number; roadmap: Roadmap }, text: string) => {
+    setSaved(result);
+    setDraft(result.roadmap);
+    setNote('');
+    setMessage({ kind: 'ok', text });
+  }, []);
+
+  const save = useCallback(async () => {
+    if (!token || !saved || !draft) return;
+    setBusy(true);
+    try {
+      const result = await api<{ version: number; roadmap: Roadmap }>('/api/roadmap', token, {
+        method: 'PUT',
+        body: JSON.stringify({ roadmap: draft, baseVersion: saved.version, note }),
+      });
+      apply(result, `Saved as version ${result.version}`);
+      setHistory((await api<{ history: Revision[] }>('/api/roadmap/history', token)).history);
+    } catch (err) {
+      setMessage({ kind: 'error', text: (err as Error).message });
+    } finally {
+      setBusy(false);
+    }
+  }, [token, saved, draft, note, apply]);
+
+  const rollback = useCallback(async (version: number) => {
+    if (!token) return;
+    if (!window.confirm(`Roll back to version ${version}? Unsaved edits will be lost.`)) return;
+    setBusy(true);
+    try {
+      const result = await api<{ version: number; roadmap: Roadmap }>('/api/roadmap/rollback', token, {
+        method: 'POST',
+        body: JSON.stringify({ version }),
+      });
+      apply(result, `Rolled back to version ${version} (now version ${result.version})`);
+      setHistory((await api<{ history: Revision[] }>('/api/roadmap/history', token)).history);
+    } catch (err) {
+      setMessage({ kind: 'error', text: (err as Error).message });
+    } finally {
+      setBusy(false);
+    }
+  }, [token, apply]);
+
+  /* ─── Draft edits ─── */
+
+  const movePhase = useCallback((index: number, delta: -1 | 1) => {
+    setDraft((d) => {
+      if (!d) return d;
+      const target = index + delta;
+      if (target < 0 || target >= d.phases.length) return d;
+      const phases = [...d.phases];
+      [phases[index], phases[target]] = [phases[target], phases[index]];
+      return { ...d, phases };
+    });
+  }, []);
+
+  const cycleItem = useCallback((phaseId: string, itemId: string) => {
+    setDraft((d) => d && {
+      ...d,
+      phases: d.phases.map((p) => p.id !== phaseId ? p : {
+        ...p,
+        items: p.items.map((i) => i.id !== itemId ? i : { ...i, status: NEXT_STATUS[i.status] }),
+      }),
+    });
+  }, []);
+
+  const setActive = useCallback((phaseId: string) => {
+    setDraft((d) => d && { ...d, activePhaseId: phaseId });
+  }, []);
+
+  if (!token || !draft) {
+    return (
+      <main className={s.page}>
+        <form
+          className={s.login}
+          onSubmit={(e) => { e.preventDefault(); if (tokenInput) load(tokenInput); }}
+        >
+          <h1 className={s.title}>Roadmap Admin</h1>
+          <input
+            className={s.input}
+            type="password"
+            placeholder="Admin token"
+            autoComplete="current-password"
+            value={tokenInput}
+            onChange={(e) => setTokenInput(e.target.value)}
+          />
+          <button className={s.primaryBtn} type="submit" disabled={busy || !tokenInput}>
+            {busy ? 'Checking...' : 'Unlock'}
+          </button>
+          {message && <p className={s.error}>{message.text}</p>}
+        </form>
+      </main>
+    );
+  }
+
+  return (
+    <main className={s.page}>
+      <header className={s.header}>
+        <h1 className={s.title}>Roadmap Admin</h1>
+        <span className={s.version}>version {saved?.version}{dirty && ' · unsaved changes'}</span>
+      </header>
+
+      <div className={s.phases}>
+        {draft.phases.map((phase, i) => (
+          <section key={phase.id} className={phase.id === draft.activePhaseId ? s.phaseActive : s.phase}>
+            <div className={s.phaseHead}>
+              <span className={s.phaseLabel}>{phaseHeading(draft, i)}</span>
+              <div className={s.phaseTools}>
+                <label className={s.activeToggle}>
+                  <input
+                    type="radio"
+                    name="activePhase"
+                    checked={phase.id === draft.activePhaseId}
+                    onChange={() => setActive(phase.id)}
+                  />
+                  Active
+                </label>
+                <button className={s.iconBtn} onClick={() => movePhase(i, -1)} disabled={i === 0} aria-label="Move phase up">&uarr;</button>
+                <button className={s.iconBtn} onClick={() => movePhase(i, 1)} disabled={i === draft.phases.length - 1} aria-label="Move phase down">&darr;</button>
+              </div>
+            </div>
+
+            <ul className={s.items}>
+              {phase.items.map((item) => (
+                <li key={item.id}>
+                  <button className={s.item} onClick={() => cycleItem(phase.id, item.id)}>
+                    <span className={STATUS_CLASS[item.status]}>{item.status}</span>
+                    {item.label}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </section>
+        ))}
+      </div>
+
+      <div className={s.saveBar}>
+        <input
+          className={s.input}
+          placeholder="What changed? (optional)"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+        />
+        <button className={s.secondaryBtn} onClick={() => saved && setDraft(saved.roadmap)} disabled={busy || !dirty}>
+          Discard
+        </button>
+        <button className={s.primaryBtn} onClick={save} disabled={busy || !dirty}>
+          {busy ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+      {message && <p className={message.kind === 'ok' ? s.ok : s.error}>{message.text}</p>}
+
+      <section className={s.history}>
+        <h2 className={s.subtitle}>History</h2>
+        {history.length === 0 && <p className={s.muted}>No earlier versions yet.</p>}
+        <ul className={s.historyList}>
+          {history.map((rev) => (
+            <li key={rev.version} className={s.historyRow}>
+              <span className={s.historyVersion}>v{rev.version}</span>
+              <span className={s.historyNote}>{rev.note}</span>
+              <span className={s.muted}>{new Date(rev.savedAt).toLocaleString()}</span>
+              <button className={s.secondaryBtn} onClick={() => rollback(rev.version)} disabled={busy}>
+                Roll back
+              </button>
+            </li>
+          ))}
+        </ul>
+      </section>
+    </main>
+  );
+}
@@ -1,8 +1,19 @@
 'use client';
 
-import { useEffect, useRef, useState } from 'react';
+import { useEffect, useId, useRef, useState } from 'react';
 import * as THREE from 'three';
-import { GLTFLoader } from 'three/addons/loaders/GLTFLoader.js';
+import type { GLTF } from 'three/addons/loaders/GLTFLoader.js';
+import { getAudioEngine, type LoopHandle } from '@/lib/audio/engine';
+import { track } from '@/lib/analytics';
+import { PeelSimulation, fallThresholdFor } from '@/lib/peel/PeelSimulation';
+import { DEFAULT_BANANA_VARIANT, DEFAULT_TAPE_VARIANT, type BananaVariant, type TapePrint, type TapeVariant } from '@/lib/peel/variants';
+import { PeelRecorder, PeelReplayer, randomSeed, seededRandom, type PeelInput, type PeelRecording } from '@/lib/peel/recording';
+import { createRenderer, isWebGLAvailable, watchContextLoss } from '@/lib/graphics/webgl';
+import { loadModel } from '@/lib/graphics/models';
+import { FrameTimeMonitor, applyQualityTier, lowerTier, pickInitialTier, type QualityTier } from '@/lib/graphics/quality';
+import BananaFallback from './BananaFallback';
+import SoundToggle from './SoundToggle';
+import s from './SceneCanvas.module.css';
 
 type Axis = 'x' | 'y' | 'z';
 function getAxis(v: THREE.Vector3, axis: string): number {
@@ -14,12 +25,114 @@ function setAxis(v: THREE.Vector3, axis: string, val: number): void {
 
 interface SceneCanvasProps {
   onTransition?: () => void;
+  /** Swapped in place, without rebuilding the scene. */
+  tapeVariant?: TapeVariant;
+  bananaVariant?: BananaVariant;
+  /** Plays a recorded session instead of taking input (dev tooling). */
+  replay?: PeelRecording;
+  /** Receives the session recording on tear, or on unmount if the peel was abandoned. */
+  onRecording?: (recording: PeelRecording) => void;
 }
 
-export default function SceneCanvas({ onTransition }: SceneCanvasProps) {
+/** Bridge from the React-rendered peel control into the scene's closure. */
+interface KeyboardPeel {
+  hold(active: boolean): void;
+  nudge(direction: 1 | -1): void;
+  /** A click with no key events behind it: screen reader activation, or a tap. */
+  activate(): void;
+}
+
+// Progress per second while Space/Enter is held, and per arrow key press
+const KEY_HOLD_RATE = 0.6;
+const KEY_STEP = 0.1;
+// Progress per click, so four activations peel the tape (one announcement each)
+const CLICK_STEP = 0.25;
+
+// Ripeness spots are painted on a copy of the banana texture at most this size
+const SPOT_TEXTURE_MAX = 1024;
+
+function hashString(str: string): number {
+  let h = 2166136261;
+  for (let i = 0; i < str.length; i++) h = Math.imul(h ^ str.charCodeAt(i), 16777619);
+  return h >>> 0;
+}
+
+/**
+ * Copy of `base` with brown sugar spots multiplied over it, scattered in UV
+ * space from a seed so a variant always looks the same. Null when the
+ * texture can't be drawn (KTX2 textures only exist on the GPU).
+ */
+function paintSpots(base: THREE.Texture, variant: BananaVariant): THREE.Texture | null {
+  const image = base.image as CanvasImageSource & { width?: number; height?: number } | null;
+  if ((base as THREE.CompressedTexture).isCompressedTexture || !image?.width || !image.height) return null;
+
+  const scale = Math.min(1, SPOT_TEXTURE_MAX / Math.max(image.width, image.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(image.width * scale);
+  canvas.height = Math.round(image.height * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+  const random = seededRandom(hashString(variant.id));
+  const size = Math.min(canvas.width, canvas.height);
+  ctx.globalCompositeOperation = 'multiply';
+  for (let i = 0; i < variant.spots; i++) {
+    const x = random() * canvas.width;
+    const y = random() * canvas.height;
+    const r = size * (0.004 + random() * 0.014);
+    const g = ctx.createRadialGradient(x, y, 0, x, y, r);
+    g.addColorStop(0, `rgba(74, 46, 20, ${0.55 + random() * 0.35})`);
+    g.addColorStop(1, 'rgba(74, 46, 20, 0)');
+    ctx.fillStyle = g;
+    ctx.beginPath();
+    ctx.ellipse(x, y, r, r * (0.6 + random() * 0.4), random() * Math.PI, 0, Math.PI * 2);
+    ctx.fill();
+  }
+
+  const texture = new THREE.CanvasTexture(canvas);
+  texture.flipY = base.flipY;
+  texture.colorSpace = base.colorSpace;
+  texture.channel = base.channel;
+  texture.wrapS = base.wrapS;
+  texture.wrapT = base.wrapT;
+  return texture;
+}
+
+export default function SceneCanvas({
+  onTransition,
+  tapeVariant = DEFAULT_TAPE_VARIANT,
+  bananaVariant = DEFAULT_BANANA_VARIANT,
+  replay,
+  onRecording,
+}: SceneCanvasProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const [loading, setLoading] = useState(true);
+  const [loadProgress, setLoadProgress] = useState<number | null>(null);
+  const [loadError, setLoadError] = useState(false);
+  const retryLoadRef = useRef<(() => void) | null>(null);
+  const [glState, setGlState] = useState<'ok' | 'unavailable' | 'lost'>('ok');
   const [hintVisible, setHintVisible] = useState(true);
+  const [announcement, setAnnouncement] = useState('');
+  const keyboardRef = useRef<KeyboardPeel | null>(null);
+  // Set while Space/Enter is down on the peel button, so the click the key also fires isn't counted twice
+  const keyClickRef = useRef(false);
+  const onRecordingRef = useRef(onRecording);
+  // Read by the scene when the model arrives; later changes go through applyLooksRef
+  const looksRef = useRef({ tape: tapeVariant, banana: bananaVariant });
+  const applyLooksRef = useRef<(() => void) | null>(null);
+  // Mirrors the peel for the Skip button's analytics event
+  const progressRef = useRef(0);
+  const helpId = useId();
+
+  useEffect(() => {
+    onRecordingRef.current = onRecording;
+  }, [onRecording]);
+
+  useEffect(() => {
+    looksRef.current = { tape: tapeVariant, banana: bananaVariant };
+    applyLooksRef.current?.();
+  }, [tapeVariant, bananaVariant]);
 
   useEffect(() => {
     const container = containerRef.current!;
@@ -33,6 +146,11 @@ export default function SceneCanvas({ onTransition }: SceneCanvasProps) {
     let model: THREE.Group | null = null;
     let bananaGroup: THREE.Group | null = null;
     let tapeMesh: THREE.Mesh | null = null;
+    // Banana materials as loaded, so every variant starts from the model's own look
+    const bananaLooks = new Map<THREE.MeshStandardMaterial, { map: THREE.Texture | null; roughness: number }>();
+    let tapeOwnMap: THREE.Texture | null = null;
+    // Prints and painted banana textures, by variant id
+    const variantTextures = new Map<string, THREE.Texture | null>();
 
     const tapeUniforms = {
       uPeel: { value: 0.0 },
@@ -49,114 +167,58 @@ export default function SceneCanvas({ onTransition }: SceneCanvasProps) {
 
     // Interaction State
     let isDragging = false;
-    let peelConfigured = false;
     let dragLastX = 0, dragLastY = 0;
 
     let isDeterminingDir = false;
     let dragStartX = 0, dragStartY = 0;
     let dragStartLocalHit: THREE.Vector3 | null = null;
     const mouseNDC = new THREE.Vector2();
-    const lastMouseDelta = new THREE.Vector2(0, 1);
-
-    let targetPeelProgress = 0;
-    let currentPeelProgress = 0;
-    let curPeelAxis: string | null = null;
-    let curPeelSign = 0;
-
-    // Physics State
-    let bananaFalling = false;
-    let fallVel = 0;
-    let bananaRotVelX = 2.0;
-    let settled = false;
-    let bananaFallThreshold = 1.0;
-    let bananaBBInTape: THREE.Box3 | null = null;
-    let transitionFired = false;
 
-    let isTorn = false;
-    const tapeVel = new THREE.Vector3();
-    const tapeRotVel = new THREE.Vector3();
+    // Physics State — the simulation owns it; the scene mirrors it onto meshes.
+    // Input reaches it through the recorder, or the replayer when replaying.
+    const seed = replay?.seed ?? randomSeed();
+    const sim = new PeelSimulation({ random: seededRandom(seed) });
+    const replayer = replay ? new PeelReplayer(sim, replay) : null;
+    const recorder = replayer ? null : new PeelRecorder(sim, seed, (r) => {
+      track('peel_ended', { outcome: r.outcome, seconds: seconds(r.steps) });
+      onRecordingRef.current?.(r);
+    });
+    const input: PeelInput = replayer ?? recorder!;
+    // Which input picked the peel direction, and when the first one was picked
+    let inputKind: 'pointer' | 'keyboard' = 'pointer';
+    let peelStartStep: number | null = null;
+
+    function seconds(steps: number) {
+      return Math.round(steps * sim.options.fixedDt * 10) / 10;
+    }
+    let bananaBBInTape: THREE.Box3 | null = null;
+    const tapeTornRot = new THREE.Euler();
 
     let tapeHitTarget: THREE.Mesh | null = null;
     const raycaster = new THREE.Raycaster();
 
     let animFrameId: number;
     let disposed = false;
+    let contextLost = false;
+    let stopWatchingContext: (() => void) | null = null;
 
-    /* ─── Audio ─── */
-    let audioCtx: AudioContext | null = null;
-    let peelNode: AudioBufferSourceNode | null = null;
-    let peelGain: GainNode | null = null;
+    let tier: QualityTier = 'medium';
+    const frameMonitor = new FrameTimeMonitor();
 
-    function ensureAudio() {
-      if (!audioCtx) audioCtx = new (window.AudioContext || (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext)();
-      return audioCtx;
-    }
+    /* ─── Audio ─── */
+    const audio = getAudioEngine();
+    audio.preload();
+    let peelLoop: LoopHandle | null = null;
 
     function startPeelSound() {
-      const ctx = ensureAudio();
-      if (peelNode) return;
-      const bufSize = ctx.sampleRate * 0.1;
-      const buf = ctx.createBuffer(1, bufSize, ctx.sampleRate);
-      const d = buf.getChannelData(0);
-      for (let i = 0; i < bufSize; i++) d[i] = Math.random() * 2 - 1;
-
-      peelNode = ctx.createBufferSource();
-      peelNode.buffer = buf;
-      peelNode.loop = true;
-
-      const bp = ctx.createBiquadFilter();
-      bp.type = 'bandpass'; bp.frequency.value = 2400; bp.Q.value = 0.8;
-      const hp = ctx.createBiquadFilter();
-      hp.type = 'highpass'; hp.frequency.value = 600;
-
-      peelGain = ctx.createGain();
-      peelGain.gain.value = 0.08;
-
-      peelNode.connect(bp); bp.connect(hp); hp.connect(peelGain); peelGain.connect(ctx.destination);
-      peelNode.start();
+      if (peelLoop) return;
+      peelLoop = audio.loop('peel');
+      peelLoop?.setIntensity(0.4);
     }
 
     function stopPeelSound() {
-      if (peelNode) { try { peelNode.stop(); } catch (_) { /* noop */ } peelNode = null; }
-      peelGain = null;
-    }
-
-    function playRipSound() {
-      const ctx = ensureAudio();
-      const now = ctx.currentTime;
-      const bufSize = ctx.sampleRate * 0.15;
-      const buf = ctx.createBuffer(1, bufSize, ctx.sampleRate);
-      const d = buf.getChannelData(0);
-      for (let i = 0; i < bufSize; i++) d[i] = Math.random() * 2 - 1;
-      const src = ctx.createBufferSource(); src.buffer = buf;
-      const bp = ctx.createBiquadFilter(); bp.type = 'bandpass'; bp.frequency.value = 1800; bp.Q.value = 1.2;
-      const g = ctx.createGain();
-      g.gain.setValueAtTime(0.25, now);
-      g.gain.exponentialRampToValueAtTime(0.001, now + 0.15);
-      src.connect(bp); bp.connect(g); g.connect(ctx.destination);
-      src.start(now); src.stop(now + 0.15);
-    }
-
-    function playThudSound() {
-      const ctx = ensureAudio();
-      const now = ctx.currentTime;
-      const osc = ctx.createOscillator(); const g = ctx.createGain();
-      osc.type = 'sine';
-      osc.frequency.setValueAtTime(120, now);
-      osc.frequency.exponentialRampToValueAtTime(40, now + 0.2);
-      g.gain.setValueAtTime(0.35, now);
-      g.gain.exponentialRampToValueAtTime(0.001, now + 0.25);
-      osc.connect(g); g.connect(ctx.destination);
-      osc.start(now); osc.stop(now + 0.25);
-
-      const osc2 = ctx.createOscillator(); const g2 = ctx.createGain();
-      osc2.type = 'triangle';
-      osc2.frequency.setValueAtTime(300, now);
-      osc2.frequency.exponentialRampToValueAtTime(80, now + 0.1);
-      g2.gain.setValueAtTime(0.15, now);
-      g2.gain.exponentialRampToValueAtTime(0.001, now + 0.12);
-      osc2.connect(g2); g2.connect(ctx.destination);
-      osc2.start(now); osc2.stop(now + 0.12);
+      peelLoop?.stop();
+      peelLoop = null;
     }
 
     /* ─── Responsive helpers ─── */
@@ -190,23 +252,40 @@ export default function SceneCanvas({ onTransition }: SceneCanvasProps) {
       camera = new THREE.PerspectiveCamera(45, aspect, 0.1, 100);
       camera.position.set(0, 0, CAMERA_Z);
 
-      const isMobile = container.clientWidth < 768;
-      renderer = new THREE.WebGLRenderer({ antialias: true, alpha: true, powerPreference: 'high-performance' });
+      tier = pickInitialTier(container.clientWidth);
+      const created = isWebGLAvailable() ? createRenderer(tier, { alpha: true, powerPreference: 'high-performance' }) : null;
+      if (!created) {
+        setGlState('unavailable');
+        setLoading(false);
+        return;
+      }
+      renderer = created;
       renderer.setSize(container.clientWidth, container.clientHeight);
-      renderer.setPixelRatio(Math.min(window.devicePixelRatio, isMobile ? 1.5 : 2));
-      renderer.shadowMap.enabled = true;
       renderer.toneMapping = THREE.ACESFilmicToneMapping;
       renderer.toneMappingExposure = 0.9;
       container.appendChild(renderer.domElement);
 
+      stopWatchingContext = watchContextLoss(renderer.domElement, {
+        onLost() {
+          contextLost = true;
+          cancelAnimationFrame(animFrameId);
+          stopPeelSound();
+          setGlState('lost');
+        },
+        onRestored() {
+          contextLost = false;
+          setGlState('ok');
+          applyQualityTier(renderer, scene, tier);
+          clock.getDelta(); // don't feed the outage into the simulation
+          animate();
+        },
+      });
+
       scene.add(new THREE.AmbientLight(0xffffff, 0.7));
 
-      const shadowRes = isMobile ? 1024 : 2048;
       const d = new THREE.DirectionalLight(0xffffff, 1.5);
       d.position.set(4, 5, 5);
       d.castShadow = true;
-      d.shadow.mapSize.width = shadowRes;
-      d.shadow.mapSize.height = shadowRes;
       d.shadow.bias = -0.0005;
       scene.add(d);
 
@@ -218,8 +297,10 @@ export default function SceneCanvas({ onTransition }: SceneCanvasProps) {
       wall.receiveShadow = true;
       scene.add(wall);
 
+      applyQualityTier(renderer, scene, tier);
+
       clock = new THREE.Clock();
-      loadModel();
+      loadBanana();
 
       window.addEventListener('pointerdown', onDown);
       window.addEventListener('pointermove', onMove);
@@ -229,54 +310,122 @@ export default function SceneCanvas({ onTransition }: SceneCanvasProps) {
       animate();
     }
 
-    function loadModel() {
-      new GLTFLoader().load('/models/banana.glb', (gltf) => {
+    function loadBanana() {
+      setLoadError(false);
+      setLoadProgress(null);
+      let shownPercent: number | null = null;
+
+      loadModel('/models/banana.glb', {
+        renderer,
+        onProgress(fraction) {
+          const percent = fraction === null ? null : Math.round(fraction * 100);
+          if (disposed || percent === shownPercent) return;
+          shownPercent = percent;
+          setLoadProgress(percent);
+        },
+      }).then(onBananaLoaded, (err) => {
         if (disposed) return;
-        model = gltf.scene;
-        let origTape: THREE.Mesh | null = null;
-
-        model.traverse((obj) => {
-          if (!(obj as THREE.Mesh).isMesh) return;
-          const mesh = obj as THREE.Mesh;
-          mesh.castShadow = true;
-          mesh.receiveShadow = true;
-
-          if (mesh.name.toLowerCase() === 'defaultmaterial') {
-            origTape = mesh;
-            // ✨ 重点修改：将颜色调亮，更接近真实的银灰色管道胶布，并增加轻微反光
-            if (mesh.material) {
-              const mat = mesh.material as THREE.MeshStandardMaterial;
-              mat.color = new THREE.Color(0xb5b7b9); // 调亮的银灰色
-              mat.roughness = 0.45; // 稍微降低粗糙度，增加胶带的光泽感
-              mat.metalness = 0.1;  // 微微的金属感辅助高光表现
-            }
-          }
-        });
+        console.error('Failed to load banana.glb:', err);
+        setLoadError(true);
+      });
+    }
+    retryLoadRef.current = loadBanana;
 
-        const box = new THREE.Box3().setFromObject(model);
-        const size = box.getSize(new THREE.Vector3());
-        const center = box.getCenter(new THREE.Vector3());
-        modelBaseSize = Math.max(size.x, size.y, size.z);
-        modelScreenWidthRatio = size.x / modelBaseSize;
+    function onBananaLoaded(gltf: GLTF) {
+      if (disposed) return;
+      model = gltf.scene;
+      let origTape: THREE.Mesh | null = null;
+
+      model.traverse((obj) => {
+        if (!(obj as THREE.Mesh).isMesh) return;
+        const mesh = obj as THREE.Mesh;
+        mesh.castShadow = true;
+        mesh.receiveShadow = true;
+
+        if (mesh.name.toLowerCase() === 'defaultmaterial') {
+          origTape = mesh;
+        } else if ((mesh.material as THREE.MeshStandardMaterial)?.isMeshStandardMaterial) {
+          const mat = mesh.material as THREE.MeshStandardMaterial;
+          bananaLooks.set(mat, { map: mat.map, roughness: mat.roughness });
+        }
+      });
 
-        model.position.copy(center).multiplyScalar(-1);
+      const box = new THREE.Box3().setFromObject(model);
+      const size = box.getSize(new THREE.Vector3());
+      const center = box.getCenter(new THREE.Vector3());
+      modelBaseSize = Math.max(size.x, size.y, size.z);
+      modelScreenWidthRatio = size.x / modelBaseSize;
 
-        const aspect = container.clientWidth / container.clientHeight;
-        const s = (BASE_MODEL_SCALE * getResponsiveScale(aspect)) / modelBaseSize;
+      model.position.copy(center).multiplyScalar(-1);
 
-        bananaGroup = new THREE.Group();
-        bananaGroup.add(model);
-        bananaGroup.scale.setScalar(s);
-        bananaGroup.rotation.x = Math.PI / 2;
-        bananaGroup.position.z = -0.8;
+      const aspect = container.clientWidth / container.clientHeight;
+      const s = (BASE_MODEL_SCALE * getResponsiveScale(aspect)) / modelBaseSize;
 
-        scene.add(bananaGroup);
-        setLoading(false);
+      bananaGroup = new THREE.Group();
+      bananaGroup.add(model);
+      bananaGroup.scale.setScalar(s);
+      bananaGroup.rotation.x = Math.PI / 2;
+      bananaGroup.position.z = -0.8;
+
+      scene.add(bananaGroup);
+      setLoading(false);
+
+      if (origTape) setupTapePeel(origTape);
+      applyLooks();
+      applyLooksRef.current = applyLooks;
+      replayer?.start();
+    }
+
+    /* ─── Variants ─── */
+    function applyLooks() {
+      const { tape, banana } = looksRef.current;
+
+      if (tapeMesh) {
+        const mat = tapeMesh.material as THREE.MeshStandardMaterial;
+        mat.color.setHex(tape.color);
+        mat.roughness = tape.roughness;
+        mat.metalness = tape.metalness;
+        const map = tape.print ? tapePrint(tape.id, tape.print) : tapeOwnMap;
+        if (mat.map !== map) {
+          mat.map = map;
+          mat.needsUpdate = true;
+        }
+      }
 
-        if (origTape) setupTapePeel(origTape);
+      bananaLooks.forEach((own, mat) => {
+        mat.color.setHex(banana.color);
+        mat.roughness = banana.roughness ?? own.roughness;
+        const map = banana.spots > 0 && own.map ? spottedMap(banana, own.map) ?? own.map : own.map;
+        if (mat.map !== map) {
+          mat.map = map;
+          mat.needsUpdate = true;
+        }
       });
     }
 
+    function tapePrint(id: string, { src, aspect }: TapePrint): THREE.Texture {
+      let texture = variantTextures.get(id);
+      if (!texture) {
+        texture = new THREE.TextureLoader().load(src, undefined, undefined, (err) => {
+          console.error(`Failed to load tape print ${src}:`, err);
+        });
+        texture.colorSpace = THREE.SRGBColorSpace;
+        texture.wrapS = texture.wrapT = THREE.RepeatWrapping;
+        // One image across the width, repeating every `aspect` widths down the length
+        texture.repeat.set(1 / aspect, 1);
+        texture.anisotropy = renderer.capabilities.getMaxAnisotropy();
+        // Sampled through uv1, laid out by setupTapePeel
+        texture.channel = 1;
+        variantTextures.set(id, texture);
+      }
+      return texture;
+    }
+
+    function spottedMap(variant: BananaVariant, base: THREE.Texture): THREE.Texture | null {
+      if (!variantTextures.has(variant.id)) variantTextures.set(variant.id, paintSpots(base, variant));
+      return variantTextures.get(variant.id) ?? null;
+    }
+
     function setupTapePeel(mesh: THREE.Mesh) {
       tapeMesh = mesh;
       mesh.frustumCulled = false;
@@ -327,7 +476,31 @@ export default function SceneCanvas({ onTransition }: SceneCanvasProps) {
         tapeBB = newGeo.boundingBox!;
       }
 
+      // Print UVs from the rest pose, in tape widths: u down the length, v
+      // across. The curl only bends positions in the vertex shader, so the
+      // print stays stuck to the tape as it peels.
+      const geo = mesh.geometry;
+      const pos = geo.getAttribute('position');
+      const tapeWidth = getAxis(bSize, widthAxis) || 1;
+      const lengthMin = getAxis(tapeBB.min, lengthAxis);
+      const widthMin = getAxis(tapeBB.min, widthAxis);
+      // Run u the other way if the print would otherwise read mirrored from the front
+      const uAxis = new THREE.Vector3();
+      const vAxis = new THREE.Vector3();
+      setAxis(uAxis, lengthAxis, 1);
+      setAxis(vAxis, widthAxis, 1);
+      const uSign = uAxis.cross(vAxis).dot(flatDir) >= 0 ? 1 : -1;
+      const printUv = new Float32Array(pos.count * 2);
+      const ptmp = new THREE.Vector3();
+      for (let i = 0; i < pos.count; i++) {
+        ptmp.fromBufferAttribute(pos, i);
+        printUv[i * 2] = (uSign * (getAxis(ptmp, lengthAxis) - lengthMin)) / tapeWidth;
+        printUv[i * 2 + 1] = (getAxis(ptmp, widthAxis) - widthMin) / tapeWidth;
+      }
+      geo.setAttribute('uv1', new THREE.BufferAttribute(printUv, 2));
+
       const mat = (mesh.material as THREE.MeshStandardMaterial).clone();
+      tapeOwnMap = mat.map;
       mat.side = THREE.DoubleSide;
 
       mat.transparent = true;
@@ -456,7 +629,7 @@ export default function SceneCanvas({ onTransition }: SceneCanvasProps) {
     }
 
     function onDown(e: PointerEvent) {
-      if (isTorn || !tapeMesh) return;
+      if (replayer || sim.state.torn || !tapeMesh) return;
 
       mouseNDC.set(
         (e.clientX / window.innerWidth) * 2 - 1,
@@ -469,19 +642,19 @@ export default function SceneCanvas({ onTransition }: SceneCanvasProps) {
       if (!hits.length) return;
 
       isDragging = true;
+      inputKind = 'pointer';
+      input.grab(e.clientX / window.innerWidth, e.clientY / window.innerHeight);
       document.body.style.cursor = 'grabbing';
-      ensureAudio();
+      audio.unlock();
       setHintVisible(false);
 
-      if (currentPeelProgress > 0.05) {
+      if (sim.canResume) {
         isDeterminingDir = false;
-        peelConfigured = true;
         dragLastX = e.clientX;
         dragLastY = e.clientY;
         startPeelSound();
       } else {
         isDeterminingDir = true;
-        peelConfigured = false;
         dragStartX = e.clientX;
         dragStartY = e.clientY;
         dragLastX = e.clientX;
@@ -491,8 +664,32 @@ export default function SceneCanvas({ onTransition }: SceneCanvasProps) {
       }
     }
 
+    /** Points the simulation at the edge being pulled. */
+    function configurePeel(axis: string, sign: number) {
+      const minVal = getAxis(tapeBB.min, axis);
+      const maxVal = getAxis(tapeBB.max, axis);
+      const fallThreshold = bananaBBInTape
+        ? fallThresholdFor(sign, minVal, maxVal, getAxis(bananaBBInTape.min, axis), getAxis(bananaBBInTape.max, axis))
+        : 1.0;
+      input.setDirection(axis, sign, fallThreshold);
+    }
+
+    /** Points the curl shader at the edge being pulled, live or replayed. */
+    function aimCurl(axis: string, sign: number) {
+      const minVal = getAxis(tapeBB.min, axis);
+      const maxVal = getAxis(tapeBB.max, axis);
+      const edge = sign === 1 ? minVal : maxVal;
+
+      const peelNormal = new THREE.Vector3(0, 0, 0);
+      setAxis(peelNormal, axis, sign);
+
+      tapeUniforms.uPeelNormal.value.copy(peelNormal);
+      tapeUniforms.uPeelEdge.value = edge * sign;
+      tapeUniforms.uMaxDist.value = maxVal - minVal;
+    }
+
     function onMove(e: PointerEvent) {
-      if (!isDragging || isTorn) return;
+      if (!isDragging || sim.state.torn) return;
 
       mouseNDC.set(
         (e.clientX / window.innerWidth) * 2 - 1,
@@ -530,34 +727,8 @@ export default function SceneCanvas({ onTransition }: SceneCanvasProps) {
         const hitVal = getAxis(dragStartLocalHit!, chosenAxis);
         const minVal = getAxis(tapeBB.min, chosenAxis);
         const maxVal = getAxis(tapeBB.max, chosenAxis);
-        const sign = Math.abs(hitVal - minVal) < Math.abs(maxVal - hitVal) ? 1 : -1;
-        const edge = sign === 1 ? minVal : maxVal;
-        const span = maxVal - minVal;
-
-        const sameDir = chosenAxis === curPeelAxis && sign === curPeelSign;
-        if (!sameDir) {
-          targetPeelProgress = 0;
-          currentPeelProgress = 0;
-          curPeelAxis = chosenAxis;
-          curPeelSign = sign;
-
-          const peelNormal = new THREE.Vector3(0, 0, 0);
-          setAxis(peelNormal, chosenAxis, sign);
-
-          tapeUniforms.uPeelNormal.value.copy(peelNormal);
-          tapeUniforms.uPeelEdge.value = edge * sign;
-          tapeUniforms.uMaxDist.value = span;
-
-          if (bananaBBInTape) {
-            if (sign === 1)
-              bananaFallThreshold = (getAxis(bananaBBInTape.max, chosenAxis) - getAxis(tapeBB.min, chosenAxis)) / span;
-            else
-              bananaFallThreshold = (getAxis(tapeBB.max, chosenAxis) - getAxis(bananaBBInTape.min, chosenAxis)) / span;
-            bananaFallThreshold = Math.min(Math.max(bananaFallThreshold + 0.05, 0.3), 0.95);
-          }
-        }
+        configurePeel(chosenAxis, Math.abs(hitVal - minVal) < Math.abs(maxVal - hitVal) ? 1 : -1);
 
-        peelConfigured = true;
         isDeterminingDir = false;
         dragLastX = e.clientX;
         dragLastY = e.clientY;
@@ -565,43 +736,34 @@ export default function SceneCanvas({ onTransition }: SceneCanvasProps) {
         return;
       }
 
-      if (!peelConfigured) return;
+      if (!sim.state.configured) return;
 
-      const screenDx = e.clientX - dragLastX;
-      const screenDy = dragLastY - e.clientY;
-      const dx = screenDx / window.innerWidth;
-      const dy = screenDy / window.innerHeight;
+      const dx = (e.clientX - dragLastX) / window.innerWidth;
+      const dy = (dragLastY - e.clientY) / window.innerHeight;
       dragLastX = e.clientX;
       dragLastY = e.clientY;
 
-      if (Math.abs(screenDx) > 1 || Math.abs(screenDy) > 1) {
-        lastMouseDelta.set(screenDx, screenDy).normalize();
-      }
-
-      const dist = Math.sqrt(dx * dx + dy * dy);
-      const sensitivity = container.clientWidth < 768 ? 4.5 : 3.5;
-      targetPeelProgress += dist * sensitivity;
-      targetPeelProgress = Math.max(0, Math.min(1.05, targetPeelProgress));
+      input.setSensitivity(container.clientWidth < 768 ? 4.5 : 3.5);
+      const dist = input.drag(dx, dy);
 
-      if (peelGain) {
-        peelGain.gain.value = Math.min(0.04 + dist * 8, 0.2);
-      }
+      // Level follows drag speed: a slow pull is a quiet creak, a yank is loud
+      peelLoop?.setIntensity(Math.min(0.2 + dist * 40, 1));
     }
 
     function onUp() {
+      if (isDragging) input.release();
       isDragging = false;
       document.body.style.cursor = 'grab';
       stopPeelSound();
     }
 
-    function tear() {
+    function onTear() {
       isDragging = false;
-      isTorn = true;
-      bananaFalling = true;
+      keyHeld = false;
       document.body.style.cursor = 'default';
 
       stopPeelSound();
-      playRipSound();
+      audio.play('tear');
 
       if (tapeHitTarget) tapeHitTarget.visible = false;
 
@@ -617,13 +779,69 @@ export default function SceneCanvas({ onTransition }: SceneCanvasProps) {
         tapeMesh.quaternion.copy(wq);
         tapeMesh.scale.copy(ws);
 
-        tapeVel.set(lastMouseDelta.x * 2, 0, Math.random() * 1);
-        tapeRotVel.set((Math.random() - 0.5) * 6, (Math.random() - 0.5) * 6, (Math.random() - 0.5) * 6);
+        input.placeTape(wp);
+        tapeTornRot.copy(tapeMesh.rotation);
       }
 
       setTimeout(() => { if (tapeMesh) tapeMesh.visible = false; }, 10000);
     }
 
+    /* ─── Simulation events ─── */
+    sim.on('peelStart', ({ axis, sign }) => aimCurl(axis, sign));
+    // Replays don't count as visits
+    if (!replayer) {
+      sim.on('peelStart', ({ axis, sign }) => {
+        peelStartStep ??= sim.steps;
+        track('peel_started', { axis, sign, input: inputKind });
+      });
+      sim.on('fall', () => track('banana_fell', { seconds: seconds(sim.steps - (peelStartStep ?? sim.steps)) }));
+    }
+    sim.on('fall', () => audio.play('fall'));
+    sim.on('tear', onTear);
+    // Louder for the first hard hit, softer for each smaller bounce
+    sim.on('land', ({ speed }) => audio.play('land', { gain: Math.min(speed / 6, 1) }));
+    sim.on('transition', () => onTransition?.());
+
+    /* ─── Keyboard ─── */
+    let keyHeld = false;
+    let announcedQuarter = 0;
+
+    function startKeyboardPeel(): boolean {
+      if (replayer || sim.state.torn || !tapeMesh || !tapeBB) return false;
+      // Keyboard has no grab point, so peel from the near end of the long axis
+      inputKind = 'keyboard';
+      if (!sim.state.configured) configurePeel(lengthAxis, 1);
+      audio.unlock();
+      setHintVisible(false);
+      return true;
+    }
+
+    keyboardRef.current = {
+      hold(active) {
+        if (active === keyHeld || (active && !startKeyboardPeel())) return;
+        keyHeld = active;
+        if (active) startPeelSound();
+        else stopPeelSound();
+      },
+      nudge(direction) {
+        if (startKeyboardPeel()) input.pull(direction * KEY_STEP);
+      },
+      activate() {
+        if (startKeyboardPeel()) input.pull(CLICK_STEP);
+      },
+    };
+
+    sim.on('fall', () => setAnnouncement('The banana slips loose and falls.'));
+
+    function announceProgress() {
+      const { state } = sim;
+      if (!state.configured || state.falling) return;
+      const quarter = Math.floor(Math.min(state.progress, 1) * 4);
+      if (quarter === announcedQuarter) return;
+      announcedQuarter = quarter;
+      setAnnouncement(`Tape ${quarter * 25}% peeled.`);
+    }
+
     function onResize() {
       if (!container) return;
       const aspect = container.clientWidth / container.clientHeight;
@@ -634,54 +852,34 @@ export default function SceneCanvas({ onTransition }: SceneCanvasProps) {
     }
 
     function animate() {
-      if (disposed) return;
+      if (disposed || contextLost) return;
       animFrameId = requestAnimationFrame(animate);
-      const dt = Math.min(clock.getDelta(), 1 / 30);
-
-      if (!isTorn && peelConfigured) {
-        if (!bananaFalling) {
-          currentPeelProgress = THREE.MathUtils.lerp(currentPeelProgress, targetPeelProgress, 0.15);
-          tapeUniforms.uPeel.value = Math.min(currentPeelProgress, 1.0);
-          if (currentPeelProgress >= bananaFallThreshold) {
-            bananaFalling = true;
-          }
-        } else {
-          currentPeelProgress = THREE.MathUtils.lerp(currentPeelProgress, 1.05, 0.3);
-          tapeUniforms.uPeel.value = Math.min(currentPeelProgress, 1.0);
-          if (currentPeelProgress >= 0.99) tear();
-        }
-      }
+      const frameDt = clock.getDelta();
 
-      if (isTorn && tapeMesh && tapeMesh.visible) {
-        tapeVel.y -= 9.8 * dt;
-        tapeMesh.position.addScaledVector(tapeVel, dt);
-        tapeMesh.rotation.x += tapeRotVel.x * dt;
-        tapeMesh.rotation.y += tapeRotVel.y * dt;
-        tapeMesh.rotation.z += tapeRotVel.z * dt;
+      if (frameMonitor.sample(frameDt) && tier !== 'low') {
+        tier = lowerTier(tier);
+        applyQualityTier(renderer, scene, tier);
       }
 
-      if (bananaFalling && bananaGroup && !settled) {
-        fallVel -= 9.8 * dt;
-        bananaGroup.position.y += fallVel * dt;
-        bananaGroup.rotation.x += bananaRotVelX * dt;
+      if (keyHeld) input.pull(KEY_HOLD_RATE * Math.min(frameDt, 0.1));
+      // Physics advances in fixed steps; the meshes show a blend of the last two
+      const alpha = input.advance(frameDt);
+      announceProgress();
+      const { state } = sim;
+      const view = sim.interpolate(alpha);
+      progressRef.current = state.progress;
 
-        if (!transitionFired && bananaGroup.position.y < -2) {
-          transitionFired = true;
-          onTransition?.();
-        }
+      if (state.configured && !state.torn) tapeUniforms.uPeel.value = Math.min(view.progress, 1.0);
 
-        if (bananaGroup.position.y < -3) {
-          bananaGroup.position.y = -3;
-          fallVel *= -0.45;
-          bananaRotVelX *= -0.5;
-          playThudSound();
+      if (state.torn && tapeMesh && tapeMesh.visible) {
+        const { position: p, rotation: r } = view.tape;
+        tapeMesh.position.set(p.x, p.y, p.z);
+        tapeMesh.rotation.set(tapeTornRot.x + r.x, tapeTornRot.y + r.y, tapeTornRot.z + r.z);
+      }
 
-          if (Math.abs(fallVel) < 0.4) {
-            fallVel = 0;
-            bananaRotVelX = 0;
-            settled = true;
-          }
-        }
+      if (bananaGroup) {
+        bananaGroup.position.y = view.banana.y;
+        bananaGroup.rotation.x = Math.PI / 2 + view.banana.angle;
       }
 
       renderer.render(scene, camera);
@@ -699,8 +897,14 @@ export default function SceneCanvas({ onTransition }: SceneCanvasProps) {
       window.removeEventListener('resize', onResize);
 
       stopPeelSound();
-      if (audioCtx) { audioCtx.close().catch(() => { }); audioCtx = null; }
-
+      recorder?.finish();
+      keyboardRef.current = null;
+      retryLoadRef.current = null;
+      applyLooksRef.current = null;
+
+      stopWatchingContext?.();
+      // Nothing below exists if WebGL was never available
+      if (!renderer) return;
       renderer.dispose();
       scene.traverse((obj) => {
         if ((obj as THREE.Mesh).geometry) (obj as THREE.Mesh).geometry.dispose();
@@ -711,22 +915,39 @@ export default function SceneCanvas({ onTransition }: SceneCanvasProps) {
         }
       });
       if (scene.environment) scene.environment.dispose();
+      variantTextures.forEach((t) => t?.dispose());
       if (container.contains(renderer.domElement)) container.removeChild(renderer.domElement);
     };
-  }, [onTransition]);
+  }, [onTransition, replay]);
 
   return (
     <div
       ref={containerRef}
       style={{ width: '100vw', height: '100svh', overflow: 'hidden', cursor: 'grab', background: '#E8E8E8', touchAction: 'none' }}
     >
-      {loading && (
-        <div style={{
+      {glState !== 'ok' && (
+        <BananaFallback
+          onActivate={onTransition}
+          message={glState === 'lost' ? 'Graphics paused' : undefined}
+        />
+      )}
+
+      {loading && !loadError && (
+        <div role="status" style={{
           position: 'absolute', top: '50%', left: '50%',
           transform: 'translate(-50%, -50%)',
           color: '#999', fontSize: 'clamp(14px, 3vw, 16px)', fontFamily: "'Helvetica Neue', sans-serif",
         }}>
-          Loading...
+          Loading...{loadProgress !== null && ` ${loadProgress}%`}
+        </div>
+      )}
+
+      {loadError && (
+        <div className={s.loadError} role="alert" onPointerDown={(e) => e.stopPropagation()}>
+          <p>Couldn&apos;t load the banana.</p>
+          <button type="button" className={s.button} onClick={() => retryLoadRef.current?.()}>
+            Try again
+          </button>
         </div>
       )}
 
@@ -742,7 +963,64 @@ export default function SceneCanvas({ onTransition }: SceneCanvasProps) {
         DON&apos;T PEEL
       </h1>
 
-
+      {/* Keyboard / screen reader path through the intro */}
+      <div className={s.controls} onPointerDown={(e) => e.stopPropagation()}>
+        {!loading && glState === 'ok' && (
+          <button
+            type="button"
+            className={s.peelButton}
+            aria-describedby={helpId}
+            onKeyDown={(e) => {
+              if (e.key === ' ' || e.key === 'Enter') {
+                e.preventDefault();
+                keyClickRef.current = true;
+                if (!e.repeat) keyboardRef.current?.hold(true);
+              } else if (e.key === 'ArrowRight' || e.key === 'ArrowUp') {
+                e.preventDefault();
+                keyboardRef.current?.nudge(1);
+              } else if (e.key === 'ArrowLeft' || e.key === 'ArrowDown') {
+                e.preventDefault();
+                keyboardRef.current?.nudge(-1);
+              }
+            }}
+            onKeyUp={(e) => {
+              if (e.key !== ' ' && e.key !== 'Enter') return;
+              keyboardRef.current?.hold(false);
+              // Any click from this key fires before the timeout
+              setTimeout(() => { keyClickRef.current = false; }, 0);
+            }}
+            onClick={() => {
+              if (keyClickRef.current) return;
+              keyboardRef.current?.activate();
+            }}
+            onBlur={() => {
+              keyClickRef.current = false;
+              keyboardRef.current?.hold(false);
+            }}
+          >
+            Peel the tape
+          </button>
+        )}
+        <button
+          type="button"
+          className={s.skipButton}
+          onClick={() => {
+            if (!replay) track('intro_skipped', { progress: Math.round(progressRef.current * 100) / 100 });
+            onTransition?.();
+          }}
+        >
+          Skip intro
+        </button>
+      </div>
+      <p id={helpId} className={s.srOnly}>
+        A banana is taped to the wall. Activate Peel the tape, or hold Space or Enter on it, or press the arrow keys, to peel the tape off.
+      </p>
+      <p className={s.srOnly} aria-live="polite">{announcement}</p>
+
+      {/* Sound toggle */}
+      <div style={{ position: 'absolute', top: 'max(12px, env(safe-area-inset-top))', right: 12, zIndex: 2 }}>
+        <SoundToggle tone="light" />
+      </div>
     </div>
   );
 }
\ No newline at end of file
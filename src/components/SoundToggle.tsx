@@ -0,0 +1,57 @@
+'use client';
+
+import { useCallback } from 'react';
+import { getAudioEngine } from '@/lib/audio/engine';
+import { useSoundSettings } from '@/lib/audio/settings';
+import s from './SoundToggle.module.css';
+
+interface SoundToggleProps {
+  /** `light` sits on the grey intro wall, `dark` in the landing nav. */
+  tone?: 'light' | 'dark';
+  showVolume?: boolean;
+  className?: string;
+}
+
+export default function SoundToggle({ tone = 'dark', showVolume = false, className }: SoundToggleProps) {
+  const [{ muted, volume }, update] = useSoundSettings();
+  const silent = muted || volume === 0;
+
+  const toggle = useCallback(() => {
+    // A click is a user gesture, so this is a safe moment to start the audio context
+    getAudioEngine().unlock();
+    update({ muted: !silent, volume: silent && volume === 0 ? 0.8 : volume });
+  }, [silent, volume, update]);
+
+  return (
+    <div className={`${tone === 'light' ? s.rootLight : s.root} ${className ?? ''}`}>
+      <button
+        type="button"
+        className={s.button}
+        onClick={toggle}
+        onPointerDown={(e) => e.stopPropagation()}
+        aria-pressed={!silent}
+        aria-label={silent ? 'Turn sound on' : 'Turn sound off'}
+        title={silent ? 'Sound off' : 'Sound on'}
+      >
+        <svg viewBox="0 0 24 24" width="18" height="18" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" aria-hidden="true">
+          <path d="M11 5L6 9H2v6h4l5 4V5z" />
+          {silent
+            ? <path d="M23 9l-6 6M17 9l6 6" />
+            : <path d="M15.5 8.5a5 5 0 010 7M19 5a10 10 0 010 14" />}
+        </svg>
+      </button>
+      {showVolume && (
+        <input
+          type="range"
+          className={s.volume}
+          min={0}
+          max={1}
+          step={0.05}
+          value={silent ? 0 : volume}
+          onChange={(e) => update({ volume: Number(e.target.value), muted: false })}
+          aria-label="Volume"
+        />
+      )}
+    </div>
+  );
+}
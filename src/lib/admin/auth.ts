@@ -0,0 +1,26 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { NextResponse } from 'next/server';
+
+function digest(value: string) {
+  return createHash('sha256').update(value).digest();
+}
+
+/**
+ * Checks `Authorization: Bearer <ADMIN_TOKEN>`. Returns a response to send
+ * back when the request isn't allowed, or null when it is. With no
+ * ADMIN_TOKEN configured the admin API is switched off entirely.
+ */
+export function requireAdmin(req: Request): NextResponse | null {
+  const expected = process.env.ADMIN_TOKEN;
+  if (!expected) {
+    return NextResponse.json({ error: { code: 'admin_disabled', message: 'ADMIN_TOKEN is not configured' } }, { status: 503 });
+  }
+
+  const header = req.headers.get('authorization') ?? '';
+  const token = header.startsWith('Bearer ') ? header.slice(7) : '';
+  // Compare fixed-length digests so neither the content nor the length of the token leaks through timing
+  if (!token || !timingSafeEqual(digest(token), digest(expected))) {
+    return NextResponse.json({ error: { code: 'unauthorized', message: 'Invalid admin token' } }, { status: 401 });
+  }
+  return null;
+}
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { parseAllowlistCsv } from '.';
+
+const ALICE = '0x' + 'a'.repeat(40);
+const BOB = '0x' + 'b'.repeat(40);
+
+describe('parseAllowlistCsv', () => {
+  it('skips the header, blank lines and comments and defaults the allocation to 1', () => {
+    const csv = `# presale\naddress,allocation\n\n${ALICE.replace(/a/g, 'A')},5\r\n  ${BOB}  \n`;
+    expect(parseAllowlistCsv(csv)).toEqual([
+      { address: ALICE, allocation: 5 },
+      { address: BOB, allocation: 1 },
+    ]);
+  });
+
+  it('rejects duplicates, whatever their case', () => {
+    expect(() => parseAllowlistCsv(`${ALICE},2\n${ALICE.replace(/a/g, 'A')},3`))
+      .toThrow(`allowlist line 2: duplicate address ${ALICE}`);
+  });
+
+  it('rejects bad addresses', () => {
+    expect(() => parseAllowlistCsv(`${ALICE}\n0x1234,1`)).toThrow('allowlist line 2: invalid address "0x1234"');
+    expect(() => parseAllowlistCsv(`${'a'.repeat(42)},1`)).toThrow(/line 1: invalid address/);
+    expect(() => parseAllowlistCsv(`0x${'g'.repeat(40)},1`)).toThrow(/line 1: invalid address/);
+  });
+
+  it('rejects allocations that are not positive integers', () => {
+    for (const allocation of ['0', '-1', '1.5', 'five']) {
+      expect(() => parseAllowlistCsv(`${ALICE},${allocation}`)).toThrow('allowlist line 1: allocation must be a positive integer');
+    }
+  });
+});
@@ -0,0 +1,129 @@
+import { readFile, stat } from 'fs/promises';
+import path from 'path';
+import { getMintProvider, MintError } from '@/lib/mint';
+import { MerkleTree, hashLeaf, verifyProof } from './merkle';
+import type { AllowlistStatus } from './types';
+
+export * from './types';
+
+export interface AllowlistEntry {
+  address: string;
+  allocation: number;
+}
+
+interface Allowlist {
+  entries: Map<string, AllowlistEntry & { index: number }>;
+  tree: MerkleTree | null;
+  mtimeMs: number;
+}
+
+const ADDRESS_RE = /^0x[0-9a-fA-F]{40}$/;
+
+function allowlistPath() {
+  return path.resolve(process.env.ALLOWLIST_PATH ?? 'src/content/allowlist.csv');
+}
+
+/**
+ * Parses `address,allocation` rows. A header row, blank lines and `#`
+ * comments are skipped; a missing allocation means 1.
+ */
+export function parseAllowlistCsv(csv: string): AllowlistEntry[] {
+  const seen = new Set<string>();
+  const entries: AllowlistEntry[] = [];
+
+  csv.split(/\r?\n/).forEach((raw, i) => {
+    const line = raw.trim();
+    if (!line || line.startsWith('#')) return;
+    const [addressCol, allocationCol] = line.split(',').map((c) => c.trim());
+    if (addressCol.toLowerCase() === 'address') return;
+
+    if (!ADDRESS_RE.test(addressCol)) throw new Error(`allowlist line ${i + 1}: invalid address "${addressCol}"`);
+    const address = addressCol.toLowerCase();
+    if (seen.has(address)) throw new Error(`allowlist line ${i + 1}: duplicate address ${address}`);
+
+    const allocation = allocationCol ? Number(allocationCol) : 1;
+    if (!Number.isInteger(allocation) || allocation < 1) {
+      throw new Error(`allowlist line ${i + 1}: allocation must be a positive integer`);
+    }
+
+    seen.add(address);
+    entries.push({ address, allocation });
+  });
+
+  return entries;
+}
+
+const globalForAllowlist = globalThis as unknown as { allowlist?: Allowlist };
+
+/** Loads and caches the allowlist, rebuilding the tree whenever the CSV changes on disk. */
+async function loadAllowlist(): Promise<Allowlist> {
+  const file = allowlistPath();
+  let mtimeMs = 0;
+  try {
+    mtimeMs = (await stat(file)).mtimeMs;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err;
+  }
+
+  const cached = globalForAllowlist.allowlist;
+  if (cached && cached.mtimeMs === mtimeMs) return cached;
+
+  const parsed = mtimeMs ? parseAllowlistCsv(await readFile(file, 'utf8')) : [];
+  const entries = new Map(parsed.map((e, index) => [e.address, { ...e, index }]));
+  const tree = parsed.length ? new MerkleTree(parsed.map((e) => hashLeaf(e.address, e.allocation))) : null;
+
+  globalForAllowlist.allowlist = { entries, tree, mtimeMs };
+  return globalForAllowlist.allowlist;
+}
+
+export async function getAllowlistRoot(): Promise<{ root: string | null; count: number }> {
+  const { tree, entries } = await loadAllowlist();
+  return { root: tree?.root ?? null, count: entries.size };
+}
+
+export async function getAllowlistEntry(address: string): Promise<(AllowlistEntry & { proof: string[] }) | null> {
+  const { entries, tree } = await loadAllowlist();
+  const entry = entries.get(address.toLowerCase());
+  if (!entry || !tree) return null;
+  return { address: entry.address, allocation: entry.allocation, proof: tree.getProof(entry.index) };
+}
+
+export async function getAllowlistStatus(address: string): Promise<AllowlistStatus> {
+  if (!ADDRESS_RE.test(address)) throw new MintError('invalid_address', 'Address must be a 0x-prefixed 20-byte hex string');
+  const [entry, { root }, minted] = await Promise.all([
+    getAllowlistEntry(address),
+    getAllowlistRoot(),
+    getMintProvider().getMintedCount(address),
+  ]);
+  const allocation = entry?.allocation ?? 0;
+  return {
+    address: address.toLowerCase(),
+    eligible: !!entry,
+    allocation,
+    minted,
+    remaining: Math.max(allocation - minted, 0),
+    proof: entry?.proof ?? [],
+    root,
+  };
+}
+
+/**
+ * Presale gate used by the quote and mint routes while the drop is in its
+ * allowlist phase. The caller's proof has to hash `address:allocation` up to
+ * the current root, as a presale contract would check it; a proof fetched
+ * before the CSV changed no longer verifies.
+ *
+ * Addresses are not authenticated: nothing proves the caller controls the
+ * address it posts, and with the stand-in wallet anyone can mint under any
+ * allowlisted address. A real provider must check a wallet signature first.
+ */
+export async function assertAllowlisted(address: string, quantity: number, proof: string[] | undefined) {
+  const status = await getAllowlistStatus(address);
+  if (!status.eligible || !status.root) throw new MintError('not_allowlisted', 'This wallet is not on the allowlist');
+  if (!proof || !verifyProof(hashLeaf(status.address, status.allocation), proof, status.root)) {
+    throw new MintError('invalid_proof', 'Allowlist proof does not match the current allowlist');
+  }
+  if (quantity > status.remaining) {
+    throw new MintError('allocation_exceeded', `Only ${status.remaining} left in this wallet's allocation`);
+  }
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { MerkleTree, hashLeaf, verifyProof } from './merkle';
+
+const address = (n: number) => '0x' + n.toString(16).padStart(40, '0');
+
+function treeOf(count: number) {
+  const entries = Array.from({ length: count }, (_, i) => ({ address: address(i + 1), allocation: i + 1 }));
+  const tree = new MerkleTree(entries.map((e) => hashLeaf(e.address, e.allocation)));
+  return { entries, tree };
+}
+
+describe('MerkleTree', () => {
+  it('proves every leaf, including the odd one out', () => {
+    for (const count of [1, 2, 3, 5, 8]) {
+      const { entries, tree } = treeOf(count);
+      entries.forEach((e, i) => {
+        expect(verifyProof(hashLeaf(e.address, e.allocation), tree.getProof(i), tree.root)).toBe(true);
+      });
+    }
+  });
+
+  it('hashes addresses case-insensitively', () => {
+    expect(hashLeaf('0x' + 'AB'.repeat(20), 2)).toEqual(hashLeaf('0x' + 'ab'.repeat(20), 2));
+  });
+
+  it('rejects a wrong leaf', () => {
+    const { tree } = treeOf(5);
+    const proof = tree.getProof(2);
+    expect(verifyProof(hashLeaf(address(3), 4), proof, tree.root)).toBe(false);
+    expect(verifyProof(hashLeaf(address(4), 3), proof, tree.root)).toBe(false);
+    expect(verifyProof(hashLeaf(address(4), 4), proof, tree.root)).toBe(false);
+  });
+
+  it('rejects a proof against another root', () => {
+    const { tree } = treeOf(5);
+    const { tree: other } = treeOf(6);
+    expect(verifyProof(hashLeaf(address(3), 3), tree.getProof(2), other.root)).toBe(false);
+  });
+
+  it('refuses to build without leaves', () => {
+    expect(() => new MerkleTree([])).toThrow(/no leaves/);
+  });
+});
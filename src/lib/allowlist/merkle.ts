@@ -0,0 +1,60 @@
+import { createHash } from 'crypto';
+
+/*
+ * Minimal Merkle tree over sha256 with sorted-pair hashing (same shape as
+ * OpenZeppelin's MerkleProof, so a verifier only needs the leaf, the proof
+ * and the root). Leaves are double-hashed to rule out second-preimage
+ * attacks with inner nodes.
+ */
+
+function sha256(...parts: Buffer[]): Buffer {
+  const h = createHash('sha256');
+  parts.forEach((p) => h.update(p));
+  return h.digest();
+}
+
+function hashPair(a: Buffer, b: Buffer): Buffer {
+  return Buffer.compare(a, b) <= 0 ? sha256(a, b) : sha256(b, a);
+}
+
+export function hashLeaf(address: string, allocation: number): Buffer {
+  return sha256(sha256(Buffer.from(`${address.toLowerCase()}:${allocation}`)));
+}
+
+export class MerkleTree {
+  private readonly layers: Buffer[][];
+
+  constructor(leaves: Buffer[]) {
+    if (leaves.length === 0) throw new Error('Cannot build a Merkle tree with no leaves');
+    this.layers = [leaves];
+    while (this.layers[this.layers.length - 1].length > 1) {
+      const prev = this.layers[this.layers.length - 1];
+      const next: Buffer[] = [];
+      for (let i = 0; i < prev.length; i += 2) {
+        // An odd node out is promoted unchanged
+        next.push(i + 1 < prev.length ? hashPair(prev[i], prev[i + 1]) : prev[i]);
+      }
+      this.layers.push(next);
+    }
+  }
+
+  get root(): string {
+    return '0x' + this.layers[this.layers.length - 1][0].toString('hex');
+  }
+
+  getProof(index: number): string[] {
+    const proof: string[] = [];
+    for (let level = 0; level < this.layers.length - 1; level++) {
+      const layer = this.layers[level];
+      const sibling = index ^ 1;
+      if (sibling < layer.length) proof.push('0x' + layer[sibling].toString('hex'));
+      index >>= 1;
+    }
+    return proof;
+  }
+}
+
+export function verifyProof(leaf: Buffer, proof: string[], root: string): boolean {
+  const computed = proof.reduce((acc, p) => hashPair(acc, Buffer.from(p.slice(2), 'hex')), leaf);
+  return '0x' + computed.toString('hex') === root.toLowerCase();
+}
@@ -0,0 +1,10 @@
+/** What `/api/allowlist/[address]` returns for one wallet. */
+export interface AllowlistStatus {
+  address: string;
+  eligible: boolean;
+  allocation: number;
+  minted: number;
+  remaining: number;
+  proof: string[];
+  root: string | null;
+}
@@ -0,0 +1,32 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { AllowlistStatus } from './types';
+
+/** One wallet's eligibility and proof, or null if the server turned the request down. */
+export async function fetchAllowlistStatus(address: string, signal?: AbortSignal): Promise<AllowlistStatus | null> {
+  const res = await fetch(`/api/allowlist/${address}`, { cache: 'no-store', signal });
+  return res.ok ? res.json() : null;
+}
+
+/**
+ * Allowlist eligibility for `address`. `refreshKey` forces a refetch, e.g.
+ * after a mint has used up part of the allocation.
+ */
+export function useAllowlist(address: string | null | undefined, refreshKey?: unknown): AllowlistStatus | null {
+  const [status, setStatus] = useState<AllowlistStatus | null>(null);
+
+  useEffect(() => {
+    if (!address) {
+      setStatus(null);
+      return;
+    }
+    const controller = new AbortController();
+    fetchAllowlistStatus(address, controller.signal)
+      .then(setStatus)
+      .catch(() => { /* aborted or offline, keep last status */ });
+    return () => controller.abort();
+  }, [address, refreshKey]);
+
+  return status;
+}
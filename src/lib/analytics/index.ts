@@ -0,0 +1,56 @@
+import { collectorSink, consoleSink, noopSink } from './sinks';
+import type { AnalyticsEvent, AnalyticsEventName, AnalyticsEvents, AnalyticsSink } from './types';
+
+export * from './types';
+
+/*
+ * Browser-side analytics bus. Components call track(); the sinks picked here
+ * get the event:
+ *   Do Not Track / Global Privacy Control  → none (noopSink)
+ *   NEXT_PUBLIC_ANALYTICS=off|console|collector → that
+ *   otherwise → console in development, the /api/events collector in production
+ */
+
+let sinks: AnalyticsSink[] | null = null;
+let session: string | null = null;
+
+function doNotTrack(): boolean {
+  const nav = navigator as Navigator & { globalPrivacyControl?: boolean; msDoNotTrack?: string };
+  const win = window as Window & { doNotTrack?: string };
+  return nav.doNotTrack === '1' || nav.msDoNotTrack === '1' || win.doNotTrack === '1' || nav.globalPrivacyControl === true;
+}
+
+function defaultSinks(): AnalyticsSink[] {
+  if (doNotTrack()) return [noopSink];
+  const mode = process.env.NEXT_PUBLIC_ANALYTICS || (process.env.NODE_ENV === 'production' ? 'collector' : 'console');
+  switch (mode) {
+    case 'off': return [noopSink];
+    case 'console': return [consoleSink];
+    case 'collector': return [collectorSink()];
+    default:
+      console.warn(`Unknown NEXT_PUBLIC_ANALYTICS "${mode}"; analytics is off`);
+      return [noopSink];
+  }
+}
+
+function getSinks(): AnalyticsSink[] {
+  if (!sinks) sinks = defaultSinks();
+  return sinks;
+}
+
+function getSession(): string {
+  if (!session) session = crypto.randomUUID?.() ?? Math.random().toString(36).slice(2);
+  return session;
+}
+
+export function track<K extends AnalyticsEventName>(name: K, props: AnalyticsEvents[K]) {
+  if (typeof window === 'undefined') return;
+  const event: AnalyticsEvent<K> = { name, props, at: new Date().toISOString(), session: getSession() };
+  getSinks().forEach((sink) => {
+    try {
+      sink.send(event as AnalyticsEvent);
+    } catch (err) {
+      console.error('Analytics sink failed:', err);
+    }
+  });
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { clientKey, createRateLimiter } from './limits';
+
+function clock(start = 0) {
+  let t = start;
+  return { now: () => t, advance: (ms: number) => { t += ms; } };
+}
+
+describe('createRateLimiter', () => {
+  it('allows `limit` takes per key per window', () => {
+    const c = clock();
+    const limiter = createRateLimiter(3, 1000, { now: c.now });
+    expect([1, 2, 3, 4].map(() => limiter.take('a'))).toEqual([true, true, true, false]);
+    expect(limiter.take('b')).toBe(true);
+  });
+
+  it('resets every key when the window rolls over', () => {
+    const c = clock();
+    const limiter = createRateLimiter(1, 1000, { now: c.now });
+    expect(limiter.take('a')).toBe(true);
+    expect(limiter.take('a')).toBe(false);
+    c.advance(999);
+    expect(limiter.take('a')).toBe(false);
+    c.advance(1);
+    expect(limiter.take('a')).toBe(true);
+  });
+
+  it('refuses new keys past maxKeys but keeps counting known ones', () => {
+    const c = clock();
+    const limiter = createRateLimiter(2, 1000, { maxKeys: 2, now: c.now });
+    expect(limiter.take('a')).toBe(true);
+    expect(limiter.take('b')).toBe(true);
+    expect(limiter.take('c')).toBe(false);
+    expect(limiter.take('a')).toBe(true);
+    expect(limiter.take('a')).toBe(false);
+
+    c.advance(1000);
+    expect(limiter.take('c')).toBe(true);
+  });
+});
+
+describe('clientKey', () => {
+  const request = (headers: Record<string, string>) => new Request('http://localhost/api/events', { headers });
+
+  it('prefers the first forwarded address, then X-Real-IP', () => {
+    expect(clientKey(request({ 'X-Forwarded-For': ' 203.0.113.7 , 10.0.0.1', 'X-Real-IP': '10.0.0.2' }))).toBe('203.0.113.7');
+    expect(clientKey(request({ 'X-Real-IP': '10.0.0.2' }))).toBe('10.0.0.2');
+    expect(clientKey(request({}))).toBe('unknown');
+  });
+});
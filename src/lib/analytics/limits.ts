@@ -0,0 +1,80 @@
+/*
+ * Abuse limits for the public /api/events collector: anyone can post to it,
+ * so each client gets a budget of batches per window and bodies are read
+ * with a hard cap. Client keys live in memory for one window, at most
+ * `maxKeys` of them, and are never written anywhere.
+ */
+
+export class BodyTooLargeError extends Error {
+  constructor(readonly limit: number) {
+    super(`Request body is over ${limit} bytes`);
+    this.name = 'BodyTooLargeError';
+  }
+}
+
+/**
+ * Reads the body as text, giving up as soon as it passes `limit` bytes
+ * rather than buffering whatever the client chose to send.
+ */
+export async function readBodyLimited(req: Request, limit: number): Promise<string> {
+  const declared = Number(req.headers.get('Content-Length'));
+  if (declared > limit) throw new BodyTooLargeError(limit);
+  if (!req.body) return '';
+
+  const reader = req.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > limit) {
+      reader.cancel().catch(() => { });
+      throw new BodyTooLargeError(limit);
+    }
+    chunks.push(value);
+  }
+  const decoder = new TextDecoder();
+  return chunks.map((c) => decoder.decode(c, { stream: true })).join('') + decoder.decode();
+}
+
+/** Best guess at who sent the request, from the proxy headers. */
+export function clientKey(req: Request): string {
+  const forwarded = req.headers.get('X-Forwarded-For')?.split(',')[0]?.trim();
+  return forwarded || req.headers.get('X-Real-IP') || 'unknown';
+}
+
+export interface RateLimiter {
+  /** Counts one request for `key`; false once it is over budget for this window. */
+  take(key: string): boolean;
+}
+
+export interface RateLimiterOptions {
+  /** Most keys tracked per window; keys past it are refused until the window rolls over. */
+  maxKeys?: number;
+  now?: () => number;
+}
+
+/** Fixed-window counter per key. */
+export function createRateLimiter(
+  limit: number,
+  windowMs: number,
+  { maxKeys = Infinity, now = Date.now }: RateLimiterOptions = {}
+): RateLimiter {
+  let windowStart = now();
+  let counts = new Map<string, number>();
+  return {
+    take(key) {
+      const t = now();
+      if (t - windowStart >= windowMs) {
+        windowStart = t;
+        counts = new Map();
+      }
+      const previous = counts.get(key);
+      if (previous === undefined && counts.size >= maxKeys) return false;
+      const count = (previous ?? 0) + 1;
+      counts.set(key, count);
+      return count <= limit;
+    },
+  };
+}
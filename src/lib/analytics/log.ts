@@ -0,0 +1,50 @@
+import { appendFile, mkdir, stat } from 'fs/promises';
+import path from 'path';
+import type { AnalyticsEvent } from './types';
+
+/*
+ * Local collector storage: one JSON object per line in an NDJSON file, ready
+ * for `jq` or a warehouse import. Nothing about the request (IP, user agent)
+ * is kept, only the event and when it arrived. The file stops growing at
+ * ANALYTICS_LOG_MAX_BYTES; rotate or ship it to make room.
+ */
+
+export class AnalyticsLogFullError extends Error {
+  constructor(readonly maxBytes: number) {
+    super(`Analytics log has reached its ${maxBytes} byte cap`);
+    this.name = 'AnalyticsLogFullError';
+  }
+}
+
+const DEFAULT_MAX_BYTES = 100 * 1024 * 1024;
+
+function logFile() {
+  return path.resolve(process.env.ANALYTICS_LOG_PATH ?? '.data/events.ndjson');
+}
+
+function maxBytes() {
+  const raw = Number(process.env.ANALYTICS_LOG_MAX_BYTES);
+  return raw > 0 ? raw : DEFAULT_MAX_BYTES;
+}
+
+async function fileSize(file: string): Promise<number> {
+  try {
+    return (await stat(file)).size;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return 0;
+    throw err;
+  }
+}
+
+export async function appendEvents(events: AnalyticsEvent[]) {
+  if (!events.length) return;
+  const receivedAt = new Date().toISOString();
+  const lines = events.map((e) => JSON.stringify({ ...e, receivedAt })).join('\n') + '\n';
+  const file = logFile();
+  // Concurrent batches can each pass the check, overshooting by a few bodies at most
+  const cap = maxBytes();
+  if ((await fileSize(file)) + Buffer.byteLength(lines) > cap) throw new AnalyticsLogFullError(cap);
+  await mkdir(path.dirname(file), { recursive: true });
+  // One write per batch, so concurrent requests don't interleave lines
+  await appendFile(file, lines);
+}
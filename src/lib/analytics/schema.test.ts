@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { AnalyticsValidationError, MAX_BATCH_EVENTS, parseEventBatch } from './schema';
+
+const event = (overrides: Record<string, unknown> = {}) => ({
+  name: 'mint_clicked',
+  props: { quantity: 2 },
+  at: '2026-10-19T12:00:00.000Z',
+  session: 'abc123',
+  ...overrides,
+});
+
+function failure(raw: unknown): string {
+  try {
+    parseEventBatch(raw);
+  } catch (err) {
+    expect(err).toBeInstanceOf(AnalyticsValidationError);
+    return (err as Error).message;
+  }
+  throw new Error('expected the batch to be rejected');
+}
+
+describe('parseEventBatch', () => {
+  it('accepts known events with flat props', () => {
+    const events = [event(), event({ name: 'intro_shown', props: undefined }), event({ name: 'peel_started', props: { axis: 'x', sign: -1, input: 'keyboard' } })];
+    expect(parseEventBatch({ events })).toEqual([
+      event(),
+      { ...event({ name: 'intro_shown' }), props: {} },
+      event({ name: 'peel_started', props: { axis: 'x', sign: -1, input: 'keyboard' } }),
+    ]);
+  });
+
+  it('drops fields it does not know', () => {
+    expect(parseEventBatch({ events: [event({ ip: '203.0.113.7' })] })).toEqual([event()]);
+  });
+
+  it('rejects a body that is not { events: [...] }', () => {
+    expect(failure(null)).toBe('body: must be { events: [...] }');
+    expect(failure([event()])).toBe('body: must be { events: [...] }');
+    expect(failure({ events: 'nope' })).toBe('body: must be { events: [...] }');
+  });
+
+  it('caps the batch size', () => {
+    expect(parseEventBatch({ events: Array.from({ length: MAX_BATCH_EVENTS }, () => event()) })).toHaveLength(MAX_BATCH_EVENTS);
+    expect(failure({ events: Array.from({ length: MAX_BATCH_EVENTS + 1 }, () => event()) })).toMatch(/^events: at most/);
+  });
+
+  it('points at the bad field', () => {
+    expect(failure({ events: [event(), 'x'] })).toBe('events[1]: must be an object');
+    expect(failure({ events: [event({ name: 'page_view' })] })).toBe('events[0].name: unknown event');
+    expect(failure({ events: [event({ at: 'yesterday' })] })).toBe('events[0].at: must be an ISO time');
+    expect(failure({ events: [event({ session: '' })] })).toMatch(/^events\[0\]\.session:/);
+    expect(failure({ events: [event({ session: 's'.repeat(65) })] })).toMatch(/^events\[0\]\.session:/);
+    expect(failure({ events: [event({ props: [] })] })).toBe('events[0].props: must be an object');
+  });
+
+  it('only lets small flat props through', () => {
+    const tooMany = Object.fromEntries(Array.from({ length: 13 }, (_, i) => [`p${i}`, i]));
+    expect(failure({ events: [event({ props: tooMany })] })).toMatch(/^events\[0\]\.props: at most/);
+    expect(failure({ events: [event({ props: { quantity: { n: 1 } } })] })).toMatch(/^events\[0\]\.props\.quantity:/);
+    expect(failure({ events: [event({ props: { quantity: Infinity } })] })).toMatch(/^events\[0\]\.props\.quantity:/);
+    expect(failure({ events: [event({ props: { code: 'x'.repeat(201) } })] })).toMatch(/^events\[0\]\.props\.code:/);
+  });
+});
@@ -0,0 +1,52 @@
+import { ANALYTICS_EVENT_NAMES, type AnalyticsEvent, type AnalyticsEventName } from './types';
+
+/*
+ * Checks batches posted to /api/events. The collector is unauthenticated, so
+ * only known event names with small flat props get through; the exact prop
+ * shapes are the client's business.
+ */
+
+export class AnalyticsValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AnalyticsValidationError';
+  }
+}
+
+export const MAX_BATCH_EVENTS = 50;
+const MAX_PROPS = 12;
+const MAX_STRING = 200;
+
+function fail(path: string, message: string): never {
+  throw new AnalyticsValidationError(`${path}: ${message}`);
+}
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null && !Array.isArray(v);
+}
+
+function parseEvent(raw: unknown, path: string): AnalyticsEvent {
+  if (!isObject(raw)) fail(path, 'must be an object');
+  if (!ANALYTICS_EVENT_NAMES.includes(raw.name as AnalyticsEventName)) fail(`${path}.name`, 'unknown event');
+  if (typeof raw.at !== 'string' || Number.isNaN(Date.parse(raw.at))) fail(`${path}.at`, 'must be an ISO time');
+  if (typeof raw.session !== 'string' || !raw.session || raw.session.length > 64) fail(`${path}.session`, 'must be a short string');
+
+  const props = raw.props ?? {};
+  if (!isObject(props)) fail(`${path}.props`, 'must be an object');
+  const entries = Object.entries(props);
+  if (entries.length > MAX_PROPS) fail(`${path}.props`, `at most ${MAX_PROPS} properties`);
+  for (const [key, value] of entries) {
+    const ok = typeof value === 'boolean'
+      || (typeof value === 'number' && Number.isFinite(value))
+      || (typeof value === 'string' && value.length <= MAX_STRING);
+    if (!ok) fail(`${path}.props.${key}`, 'must be a number, boolean or short string');
+  }
+
+  return { name: raw.name as AnalyticsEventName, props: props as AnalyticsEvent['props'], at: raw.at, session: raw.session };
+}
+
+export function parseEventBatch(raw: unknown): AnalyticsEvent[] {
+  if (!isObject(raw) || !Array.isArray(raw.events)) fail('body', 'must be { events: [...] }');
+  if (raw.events.length > MAX_BATCH_EVENTS) fail('events', `at most ${MAX_BATCH_EVENTS} per request`);
+  return raw.events.map((e, i) => parseEvent(e, `events[${i}]`));
+}
@@ -0,0 +1,54 @@
+import type { AnalyticsEvent, AnalyticsSink } from './types';
+
+export const noopSink: AnalyticsSink = {
+  send() { },
+};
+
+export const consoleSink: AnalyticsSink = {
+  send(event) {
+    console.debug(`[analytics] ${event.name}`, event.props);
+  },
+};
+
+// Batch for a moment so a burst (peel → fall → landing) is one request
+const FLUSH_MS = 2000;
+const MAX_BATCH = 20;
+
+/**
+ * Posts batches to the /api/events collector. Whatever is queued when the
+ * page is hidden goes out with sendBeacon so the last events of a visit
+ * aren't lost. Failures are dropped; analytics is best-effort.
+ */
+export function collectorSink(url = '/api/events'): AnalyticsSink {
+  let queue: AnalyticsEvent[] = [];
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  function flush(leaving = false) {
+    clearTimeout(timer);
+    timer = undefined;
+    if (!queue.length) return;
+    const body = JSON.stringify({ events: queue });
+    queue = [];
+
+    if (leaving && navigator.sendBeacon?.(url, new Blob([body], { type: 'application/json' }))) return;
+    fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body,
+      keepalive: true,
+    }).catch(() => { /* dropped */ });
+  }
+
+  window.addEventListener('pagehide', () => flush(true));
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'hidden') flush(true);
+  });
+
+  return {
+    send(event) {
+      queue.push(event);
+      if (queue.length >= MAX_BATCH) flush();
+      else timer ??= setTimeout(flush, FLUSH_MS);
+    },
+  };
+}
@@ -0,0 +1,49 @@
+/* ─── Funnel events: intro → peel → landing → mint ─── */
+
+/**
+ * Event name → properties. Properties stay coarse on purpose: no wallet
+ * addresses, no free text, nothing that identifies a visitor.
+ */
+export interface AnalyticsEvents {
+  intro_shown: Record<string, never>;
+  /** A peel direction was chosen; fires again if the visitor switches edge. */
+  peel_started: { axis: string; sign: number; input: 'pointer' | 'keyboard' };
+  banana_fell: { seconds: number };
+  /** The peel session ended, torn or given up (see PeelRecorder). */
+  peel_ended: { outcome: 'torn' | 'abandoned'; seconds: number };
+  intro_skipped: { progress: number };
+  /** `intro` after the peel or Skip; otherwise why the intro was skipped on load. */
+  landing_reached: { via: 'intro' | 'history' | 'link' | 'returning' };
+  section_viewed: { section: 'mint' | 'roadmap' | 'collection' };
+  mint_clicked: { quantity: number };
+  mint_succeeded: { quantity: number };
+  mint_failed: { code: string };
+}
+
+export type AnalyticsEventName = keyof AnalyticsEvents;
+
+export const ANALYTICS_EVENT_NAMES: readonly AnalyticsEventName[] = [
+  'intro_shown',
+  'peel_started',
+  'banana_fell',
+  'peel_ended',
+  'intro_skipped',
+  'landing_reached',
+  'section_viewed',
+  'mint_clicked',
+  'mint_succeeded',
+  'mint_failed',
+];
+
+export interface AnalyticsEvent<K extends AnalyticsEventName = AnalyticsEventName> {
+  name: K;
+  props: AnalyticsEvents[K];
+  /** ISO time the event happened in the browser. */
+  at: string;
+  /** Random per page load, only to stitch one visit's funnel together. Never stored client-side. */
+  session: string;
+}
+
+export interface AnalyticsSink {
+  send(event: AnalyticsEvent): void;
+}
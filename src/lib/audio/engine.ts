@@ -0,0 +1,217 @@
+import { getSoundSettings, subscribeSoundSettings } from './settings';
+import { synthPeelLoop, synthRip, synthThud, synthWhoosh, type SynthVoice } from './synth';
+
+/* ─── Sound design table ─── */
+
+export type SoundName = 'peel' | 'tear' | 'fall' | 'land';
+
+interface SoundDef {
+  url: string;
+  /** Base level for the sample; the synth fallback has its own levels baked in. */
+  gain: number;
+  /** ± fraction applied to playbackRate on every play. */
+  pitchJitter: number;
+  /** ± fraction applied to gain on every play. */
+  gainJitter: number;
+  /** Simultaneous voices before the oldest is stolen. */
+  voices: number;
+  synth: (ctx: AudioContext, dest: AudioNode, rate: number, gain: number) => SynthVoice;
+}
+
+const SOUNDS: Record<SoundName, SoundDef> = {
+  peel: { url: '/audio/tape-tear.mp3', gain: 0.6, pitchJitter: 0.04, gainJitter: 0, voices: 1, synth: synthPeelLoop },
+  tear: { url: '/audio/crack.mp3', gain: 0.9, pitchJitter: 0.08, gainJitter: 0.1, voices: 2, synth: synthRip },
+  fall: { url: '/audio/whoosh.mp3', gain: 0.7, pitchJitter: 0.1, gainJitter: 0.15, voices: 1, synth: synthWhoosh },
+  land: { url: '/audio/impact.mp3', gain: 1, pitchJitter: 0.12, gainJitter: 0.15, voices: 4, synth: synthThud },
+};
+
+// Placeholder or truncated files decode fine but are silent; treat them as missing
+const MIN_USABLE_SECONDS = 0.05;
+
+export interface PlayOptions {
+  /** Multiplier on the sound's base gain, e.g. impact speed. */
+  gain?: number;
+}
+
+export interface LoopHandle {
+  /** 0..1, ramped smoothly to avoid zipper noise. */
+  setIntensity(value: number): void;
+  stop(): void;
+}
+
+interface Voice {
+  stop(): void;
+}
+
+function jitter(amount: number) {
+  return 1 + (Math.random() * 2 - 1) * amount;
+}
+
+function isUsable(buffer: AudioBuffer): boolean {
+  if (buffer.duration < MIN_USABLE_SECONDS) return false;
+  const data = buffer.getChannelData(0);
+  for (let i = 0; i < data.length; i += 64) if (Math.abs(data[i]) > 1e-4) return true;
+  return false;
+}
+
+/**
+ * One AudioContext for the whole app. Fetches the designed sounds early,
+ * decodes them once the context exists (first user gesture), pools voices per
+ * sound and falls back to the procedural versions when a file is missing.
+ * Everything is routed through a single master gain that follows the
+ * user's mute/volume setting.
+ */
+class AudioEngine {
+  private ctx: AudioContext | null = null;
+  private master: GainNode | null = null;
+  private raw = new Map<SoundName, Promise<ArrayBuffer | null>>();
+  private buffers = new Map<SoundName, AudioBuffer | null>();
+  private active = new Map<SoundName, Voice[]>();
+
+  /** Starts downloading the sound files. Safe to call before any user gesture. */
+  preload() {
+    if (typeof window === 'undefined') return;
+    (Object.keys(SOUNDS) as SoundName[]).forEach((name) => {
+      if (this.raw.has(name)) return;
+      this.raw.set(name, fetch(SOUNDS[name].url)
+        .then((res) => (res.ok ? res.arrayBuffer() : null))
+        .catch(() => null));
+    });
+  }
+
+  /** Creates/resumes the context. Must run inside a user gesture the first time. */
+  unlock(): AudioContext | null {
+    if (typeof window === 'undefined') return null;
+    if (!this.ctx) {
+      const Ctor = window.AudioContext || (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext;
+      if (!Ctor) return null;
+      this.ctx = new Ctor();
+      this.master = this.ctx.createGain();
+      this.master.gain.value = this.targetVolume();
+      this.master.connect(this.ctx.destination);
+      subscribeSoundSettings(() => this.applySettings());
+      this.preload();
+      this.decodeAll();
+    }
+    if (this.ctx.state === 'suspended') this.ctx.resume().catch(() => { });
+    return this.ctx;
+  }
+
+  private targetVolume() {
+    const { muted, volume } = getSoundSettings();
+    return muted ? 0 : volume;
+  }
+
+  private applySettings() {
+    if (!this.ctx || !this.master) return;
+    this.master.gain.setTargetAtTime(this.targetVolume(), this.ctx.currentTime, 0.03);
+  }
+
+  private decodeAll() {
+    const ctx = this.ctx!;
+    this.raw.forEach((pending, name) => {
+      pending
+        // decodeAudioData detaches its input, so hand it a copy in case we ever decode twice
+        .then((data) => (data ? ctx.decodeAudioData(data.slice(0)) : null))
+        .then((buffer) => this.buffers.set(name, buffer && isUsable(buffer) ? buffer : null))
+        .catch(() => this.buffers.set(name, null));
+    });
+  }
+
+  private claimVoice(name: SoundName, voice: Voice) {
+    const list = this.active.get(name) ?? [];
+    while (list.length >= SOUNDS[name].voices) list.shift()!.stop();
+    list.push(voice);
+    this.active.set(name, list);
+  }
+
+  private releaseVoice(name: SoundName, voice: Voice) {
+    const list = this.active.get(name);
+    if (!list) return;
+    const i = list.indexOf(voice);
+    if (i !== -1) list.splice(i, 1);
+  }
+
+  /** Fire-and-forget one-shot with per-play pitch and gain variation. */
+  play(name: SoundName, options: PlayOptions = {}) {
+    const ctx = this.unlock();
+    if (!ctx || !this.master || getSoundSettings().muted) return;
+    const def = SOUNDS[name];
+    const rate = jitter(def.pitchJitter);
+    const gain = (options.gain ?? 1) * jitter(def.gainJitter);
+    const buffer = this.buffers.get(name);
+
+    if (buffer) {
+      const src = ctx.createBufferSource();
+      src.buffer = buffer;
+      src.playbackRate.value = rate;
+      const g = ctx.createGain();
+      g.gain.value = def.gain * gain;
+      src.connect(g); g.connect(this.master);
+      const voice: Voice = { stop: () => { try { src.stop(); } catch (_) { /* noop */ } } };
+      src.onended = () => this.releaseVoice(name, voice);
+      this.claimVoice(name, voice);
+      src.start();
+      return;
+    }
+
+    const synth = def.synth(ctx, this.master, rate, gain);
+    const voice: Voice = { stop: synth.stop };
+    this.claimVoice(name, voice);
+    // Synth voices are all well under a second; drop them from the pool after that
+    setTimeout(() => this.releaseVoice(name, voice), 1000);
+  }
+
+  /** Continuous sound whose level follows the caller (the peel drag speed). */
+  loop(name: SoundName): LoopHandle | null {
+    const ctx = this.unlock();
+    if (!ctx || !this.master) return null;
+    const def = SOUNDS[name];
+    const rate = jitter(def.pitchJitter);
+    const buffer = this.buffers.get(name);
+
+    let output: GainNode;
+    let stopSource: () => void;
+    let level: number;
+
+    if (buffer) {
+      const src = ctx.createBufferSource();
+      src.buffer = buffer;
+      src.loop = true;
+      src.playbackRate.value = rate;
+      output = ctx.createGain();
+      output.gain.value = 0;
+      src.connect(output); output.connect(this.master);
+      src.start();
+      stopSource = () => { try { src.stop(); } catch (_) { /* noop */ } };
+      level = def.gain;
+    } else {
+      const synth = def.synth(ctx, this.master, rate, 1);
+      output = synth.output;
+      stopSource = synth.stop;
+      level = 0.2;
+    }
+
+    const voice: Voice = { stop: stopSource };
+    this.claimVoice(name, voice);
+
+    return {
+      setIntensity: (value) => {
+        output.gain.setTargetAtTime(level * Math.min(Math.max(value, 0), 1), ctx.currentTime, 0.02);
+      },
+      stop: () => {
+        voice.stop();
+        this.releaseVoice(name, voice);
+      },
+    };
+  }
+}
+
+let engine: AudioEngine | null = null;
+
+export function getAudioEngine(): AudioEngine {
+  if (!engine) engine = new AudioEngine();
+  return engine;
+}
+
+export type { AudioEngine };
@@ -0,0 +1,75 @@
+'use client';
+
+import { useCallback, useSyncExternalStore } from 'react';
+
+/* ─── Persistent sound preference (localStorage) ─── */
+
+export interface SoundSettings {
+  muted: boolean;
+  /** 0..1 */
+  volume: number;
+}
+
+const STORAGE_KEY = 'bv.sound';
+const DEFAULTS: SoundSettings = { muted: false, volume: 0.8 };
+// Server render and first client render must agree; the stored value is applied right after hydration
+const SERVER_SNAPSHOT: SoundSettings = DEFAULTS;
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+let current: SoundSettings | null = null;
+
+/**
+ * There's no "prefers reduced sound" media query, so with nothing stored yet
+ * we start muted for visitors who ask the OS for reduced motion; they're the
+ * ones most likely to be bothered by sudden audio.
+ */
+function initialSettings(): SoundSettings {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) {
+      const parsed = JSON.parse(raw) as Partial<SoundSettings>;
+      return {
+        muted: typeof parsed.muted === 'boolean' ? parsed.muted : DEFAULTS.muted,
+        volume: typeof parsed.volume === 'number' ? Math.min(Math.max(parsed.volume, 0), 1) : DEFAULTS.volume,
+      };
+    }
+  } catch (_) { /* storage disabled or corrupt */ }
+  const reduce = window.matchMedia?.('(prefers-reduced-motion: reduce)').matches ?? false;
+  return { ...DEFAULTS, muted: reduce };
+}
+
+export function getSoundSettings(): SoundSettings {
+  if (typeof window === 'undefined') return SERVER_SNAPSHOT;
+  if (!current) current = initialSettings();
+  return current;
+}
+
+export function setSoundSettings(patch: Partial<SoundSettings>) {
+  const next = { ...getSoundSettings(), ...patch };
+  next.volume = Math.min(Math.max(next.volume, 0), 1);
+  current = next;
+  try { localStorage.setItem(STORAGE_KEY, JSON.stringify(next)); } catch (_) { /* not persisted */ }
+  listeners.forEach((l) => l());
+}
+
+export function subscribeSoundSettings(listener: Listener): () => void {
+  listeners.add(listener);
+  // Keep several tabs in step
+  const onStorage = (e: StorageEvent) => {
+    if (e.key !== STORAGE_KEY) return;
+    current = null;
+    listener();
+  };
+  window.addEventListener('storage', onStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener('storage', onStorage);
+  };
+}
+
+export function useSoundSettings(): [SoundSettings, (patch: Partial<SoundSettings>) => void] {
+  const settings = useSyncExternalStore(subscribeSoundSettings, getSoundSettings, () => SERVER_SNAPSHOT);
+  const update = useCallback((patch: Partial<SoundSettings>) => setSoundSettings(patch), []);
+  return [settings, update];
+}
@@ -0,0 +1,96 @@
+/*
+ * Procedural fallbacks for every designed sound. These are the original
+ * SceneCanvas noise/oscillator voices, kept so the intro still makes noise
+ * when an asset fails to load or decode. `rate` scales pitch like
+ * playbackRate does for samples.
+ */
+
+export interface SynthVoice {
+  /** Gain node at the end of the voice chain; the engine drives it for loops. */
+  output: GainNode;
+  stop(): void;
+}
+
+function noiseBuffer(ctx: AudioContext, seconds: number): AudioBuffer {
+  const size = Math.floor(ctx.sampleRate * seconds);
+  const buf = ctx.createBuffer(1, size, ctx.sampleRate);
+  const d = buf.getChannelData(0);
+  for (let i = 0; i < size; i++) d[i] = Math.random() * 2 - 1;
+  return buf;
+}
+
+/** Looping filtered noise for the tape peel. Starts at gain 0; the caller sets the level. */
+export function synthPeelLoop(ctx: AudioContext, dest: AudioNode, rate: number): SynthVoice {
+  const src = ctx.createBufferSource();
+  src.buffer = noiseBuffer(ctx, 0.1);
+  src.loop = true;
+
+  const bp = ctx.createBiquadFilter();
+  bp.type = 'bandpass'; bp.frequency.value = 2400 * rate; bp.Q.value = 0.8;
+  const hp = ctx.createBiquadFilter();
+  hp.type = 'highpass'; hp.frequency.value = 600;
+
+  const out = ctx.createGain();
+  out.gain.value = 0;
+
+  src.connect(bp); bp.connect(hp); hp.connect(out); out.connect(dest);
+  src.start();
+  return { output: out, stop: () => { try { src.stop(); } catch (_) { /* noop */ } } };
+}
+
+export function synthRip(ctx: AudioContext, dest: AudioNode, rate: number, gain: number): SynthVoice {
+  const now = ctx.currentTime;
+  const src = ctx.createBufferSource(); src.buffer = noiseBuffer(ctx, 0.15);
+  const bp = ctx.createBiquadFilter(); bp.type = 'bandpass'; bp.frequency.value = 1800 * rate; bp.Q.value = 1.2;
+  const g = ctx.createGain();
+  g.gain.setValueAtTime(0.25 * gain, now);
+  g.gain.exponentialRampToValueAtTime(0.001, now + 0.15);
+  src.connect(bp); bp.connect(g); g.connect(dest);
+  src.start(now); src.stop(now + 0.15);
+  return { output: g, stop: () => { try { src.stop(); } catch (_) { /* noop */ } } };
+}
+
+export function synthWhoosh(ctx: AudioContext, dest: AudioNode, rate: number, gain: number): SynthVoice {
+  const now = ctx.currentTime;
+  const src = ctx.createBufferSource(); src.buffer = noiseBuffer(ctx, 0.5);
+  const bp = ctx.createBiquadFilter(); bp.type = 'bandpass'; bp.Q.value = 0.7;
+  bp.frequency.setValueAtTime(300 * rate, now);
+  bp.frequency.exponentialRampToValueAtTime(1400 * rate, now + 0.35);
+  const g = ctx.createGain();
+  g.gain.setValueAtTime(0.001, now);
+  g.gain.exponentialRampToValueAtTime(0.12 * gain, now + 0.15);
+  g.gain.exponentialRampToValueAtTime(0.001, now + 0.5);
+  src.connect(bp); bp.connect(g); g.connect(dest);
+  src.start(now); src.stop(now + 0.5);
+  return { output: g, stop: () => { try { src.stop(); } catch (_) { /* noop */ } } };
+}
+
+export function synthThud(ctx: AudioContext, dest: AudioNode, rate: number, gain: number): SynthVoice {
+  const now = ctx.currentTime;
+  const out = ctx.createGain();
+  out.gain.value = gain;
+  out.connect(dest);
+
+  const osc = ctx.createOscillator(); const g = ctx.createGain();
+  osc.type = 'sine';
+  osc.frequency.setValueAtTime(120 * rate, now);
+  osc.frequency.exponentialRampToValueAtTime(40 * rate, now + 0.2);
+  g.gain.setValueAtTime(0.35, now);
+  g.gain.exponentialRampToValueAtTime(0.001, now + 0.25);
+  osc.connect(g); g.connect(out);
+  osc.start(now); osc.stop(now + 0.25);
+
+  const osc2 = ctx.createOscillator(); const g2 = ctx.createGain();
+  osc2.type = 'triangle';
+  osc2.frequency.setValueAtTime(300 * rate, now);
+  osc2.frequency.exponentialRampToValueAtTime(80 * rate, now + 0.1);
+  g2.gain.setValueAtTime(0.15, now);
+  g2.gain.exponentialRampToValueAtTime(0.001, now + 0.12);
+  osc2.connect(g2); g2.connect(out);
+  osc2.start(now); osc2.stop(now + 0.12);
+
+  return {
+    output: out,
+    stop: () => { try { osc.stop(); osc2.stop(); } catch (_) { /* noop */ } },
+  };
+}
@@ -0,0 +1,83 @@
+import type { DropConfig } from './types';
+import { BANANA_VARIANTS, TAPE_VARIANTS, isVariantChoice } from '@/lib/peel/variants';
+import { DEFAULT_PRODUCT, PRODUCTS } from '@/lib/product';
+
+const DEFAULTS: DropConfig = {
+  price: 25,
+  currency: 'USDC',
+  maxSupply: 500,
+  maxPerTransaction: 20,
+  perWalletCap: 20,
+  startsAt: '2026-01-01T00:00:00.000Z',
+  publicStartsAt: '2026-01-02T00:00:00.000Z',
+  endsAt: '2027-01-01T00:00:00.000Z',
+  tapeVariant: 'duct-silver',
+  bananaVariant: 'ripe',
+  product: DEFAULT_PRODUCT.id,
+};
+
+function envNumber(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw === '') return fallback;
+  const n = Number(raw);
+  if (!Number.isFinite(n) || n < 0) throw new Error(`${name} must be a non-negative number, got "${raw}"`);
+  return n;
+}
+
+function envCount(name: string, fallback: number): number {
+  const n = envNumber(name, fallback);
+  if (!Number.isInteger(n)) throw new Error(`${name} must be a whole number, got "${process.env[name]}"`);
+  return n;
+}
+
+function envDate(name: string, fallback: string): string {
+  const raw = process.env[name];
+  if (raw === undefined || raw === '') return fallback;
+  const t = Date.parse(raw);
+  if (Number.isNaN(t)) throw new Error(`${name} must be an ISO date, got "${raw}"`);
+  return new Date(t).toISOString();
+}
+
+function envVariant(name: string, list: readonly { id: string }[], fallback: string): string {
+  const raw = process.env[name]?.trim();
+  if (!raw) return fallback;
+  if (!isVariantChoice(list, raw)) {
+    throw new Error(`${name} must be one of ${list.map((v) => v.id).join(', ')} or "random", got "${raw}"`);
+  }
+  return raw;
+}
+
+function envProduct(name: string, fallback: string): string {
+  const raw = process.env[name]?.trim();
+  if (!raw) return fallback;
+  if (!PRODUCTS.some((p) => p.id === raw)) {
+    throw new Error(`${name} must be one of ${PRODUCTS.map((p) => p.id).join(', ')}, got "${raw}"`);
+  }
+  return raw;
+}
+
+let cached: DropConfig | null = null;
+
+/** Server-only. Defaults can be overridden per deployment through DROP_* env vars. */
+export function getDropConfig(): DropConfig {
+  if (cached) return cached;
+  const config: DropConfig = {
+    price: envNumber('DROP_PRICE', DEFAULTS.price),
+    currency: process.env.DROP_CURRENCY || DEFAULTS.currency,
+    maxSupply: envCount('DROP_MAX_SUPPLY', DEFAULTS.maxSupply),
+    maxPerTransaction: envCount('DROP_MAX_PER_TX', DEFAULTS.maxPerTransaction),
+    perWalletCap: envCount('DROP_PER_WALLET_CAP', DEFAULTS.perWalletCap),
+    startsAt: envDate('DROP_STARTS_AT', DEFAULTS.startsAt),
+    publicStartsAt: envDate('DROP_PUBLIC_STARTS_AT', DEFAULTS.publicStartsAt),
+    endsAt: envDate('DROP_ENDS_AT', DEFAULTS.endsAt),
+    tapeVariant: envVariant('DROP_TAPE_VARIANT', TAPE_VARIANTS, DEFAULTS.tapeVariant),
+    bananaVariant: envVariant('DROP_BANANA_VARIANT', BANANA_VARIANTS, DEFAULTS.bananaVariant),
+    product: envProduct('DROP_PRODUCT', DEFAULTS.product),
+  };
+  const starts = Date.parse(config.startsAt);
+  const publicStarts = Date.parse(config.publicStartsAt);
+  if (publicStarts < starts) throw new Error('DROP_PUBLIC_STARTS_AT must not be before DROP_STARTS_AT');
+  if (Date.parse(config.endsAt) <= publicStarts) throw new Error('DROP_ENDS_AT must be after DROP_PUBLIC_STARTS_AT');
+  cached = config;
+  return config;
+}
@@ -0,0 +1,33 @@
+import { getMintProvider } from '@/lib/mint';
+import { getDropConfig } from './config';
+import { computeDropPhase } from './phases';
+import type { DropSnapshot } from './types';
+
+type Listener = () => void;
+
+const globalForFeed = globalThis as unknown as { dropListeners?: Set<Listener> };
+const listeners = (globalForFeed.dropListeners ??= new Set());
+
+export async function getDropSnapshot(): Promise<DropSnapshot> {
+  const config = getDropConfig();
+  const minted = await getMintProvider().getMintedCount();
+  const now = Date.now();
+  return {
+    ...config,
+    minted,
+    remaining: Math.max(config.maxSupply - minted, 0),
+    phase: computeDropPhase(config, minted, now),
+    serverTime: new Date(now).toISOString(),
+  };
+}
+
+/** Subscribe to in-process supply changes. Returns an unsubscribe function. */
+export function onDropChanged(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+/** Called after every successful mint so open SSE streams push immediately. */
+export function notifyDropChanged() {
+  listeners.forEach((l) => l());
+}
@@ -0,0 +1,114 @@
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { MintErrorCode } from '@/lib/mint';
+
+/*
+ * The server-side mint gate against an in-memory local provider, with the
+ * drop schedule and limits set through the same env vars as production.
+ */
+
+const ALICE = '0x' + 'a'.repeat(40);
+const BOB = '0x' + 'b'.repeat(40);
+
+const OPEN = { DROP_STARTS_AT: '2000-01-01T00:00:00Z', DROP_PUBLIC_STARTS_AT: '2000-01-02T00:00:00Z', DROP_ENDS_AT: '2999-01-01T00:00:00Z' };
+const PRESALE = { ...OPEN, DROP_PUBLIC_STARTS_AT: '2999-01-01T00:00:00Z', DROP_ENDS_AT: '2999-01-02T00:00:00Z' };
+const UPCOMING = { DROP_STARTS_AT: '2999-01-01T00:00:00Z', DROP_PUBLIC_STARTS_AT: '2999-01-02T00:00:00Z', DROP_ENDS_AT: '2999-01-03T00:00:00Z' };
+
+let tmp: string | null = null;
+
+/** Fresh config, provider and allowlist cache for the given env. */
+async function load(env: Record<string, string>) {
+  const all = { MINT_PROVIDER: 'local', MINT_LEDGER_PATH: '', DROP_MAX_SUPPLY: '10', DROP_MAX_PER_TX: '3', DROP_PER_WALLET_CAP: '4', ...env };
+  for (const [key, value] of Object.entries(all)) vi.stubEnv(key, value);
+  vi.resetModules();
+  const g = globalThis as { mintProvider?: unknown; mintLock?: unknown; allowlist?: unknown };
+  delete g.mintProvider;
+  delete g.mintLock;
+  delete g.allowlist;
+
+  const { assertMintAllowed } = await import('./limits');
+  const { getMintProvider, MintError } = await import('@/lib/mint');
+  const { getAllowlistEntry } = await import('@/lib/allowlist');
+
+  return {
+    getAllowlistEntry,
+    /** Resolves to the rejection code, or null if the mint is allowed. */
+    async check(address: string, quantity: number, proof?: string[]): Promise<MintErrorCode | null> {
+      try {
+        await assertMintAllowed(address, quantity, proof);
+        return null;
+      } catch (err) {
+        expect(err).toBeInstanceOf(MintError);
+        return (err as InstanceType<typeof MintError>).code;
+      }
+    },
+    async mint(address: string, quantity: number) {
+      const provider = getMintProvider();
+      await provider.mint({ quoteId: (await provider.quote({ address, quantity })).id });
+    },
+  };
+}
+
+afterEach(async () => {
+  vi.unstubAllEnvs();
+  if (tmp) await rm(tmp, { recursive: true, force: true });
+  tmp = null;
+});
+
+describe('assertMintAllowed', () => {
+  it('keeps each transaction between 1 and the per-transaction limit', async () => {
+    const { check } = await load(OPEN);
+    expect(await check(ALICE, 1)).toBeNull();
+    expect(await check(ALICE, 3)).toBeNull();
+    expect(await check(ALICE, 4)).toBe('quantity_out_of_range');
+    expect(await check(ALICE, 0)).toBe('quantity_out_of_range');
+    expect(await check(ALICE, 1.5)).toBe('quantity_out_of_range');
+  });
+
+  it('counts earlier mints against the per-wallet cap', async () => {
+    const { check, mint } = await load(OPEN);
+    await mint(ALICE, 3);
+    expect(await check(ALICE, 2)).toBe('wallet_cap_reached');
+    expect(await check(ALICE, 1)).toBeNull();
+    expect(await check(ALICE.toUpperCase().replace('0X', '0x'), 2)).toBe('wallet_cap_reached');
+    expect(await check(BOB, 3)).toBeNull();
+
+    await mint(ALICE, 1);
+    expect(await check(ALICE, 1)).toBe('wallet_cap_reached');
+  });
+
+  it('stops at the remaining supply, then reports sold out', async () => {
+    const { check, mint } = await load({ ...OPEN, DROP_MAX_SUPPLY: '4' });
+    await mint(ALICE, 3);
+    expect(await check(BOB, 2)).toBe('exceeds_remaining_supply');
+    await mint(BOB, 1);
+    expect(await check(BOB, 1)).toBe('sold_out');
+  });
+
+  it('refuses mints before the drop opens', async () => {
+    const { check } = await load(UPCOMING);
+    expect(await check(ALICE, 1)).toBe('drop_not_open');
+  });
+
+  it('asks for a valid allowlist proof during the presale', async () => {
+    tmp = await mkdtemp(path.join(tmpdir(), 'allowlist-'));
+    const csv = path.join(tmp, 'allowlist.csv');
+    await writeFile(csv, `${ALICE},2\n${'0x' + 'c'.repeat(40)},1\n`);
+    const { check, getAllowlistEntry, mint } = await load({ ...PRESALE, ALLOWLIST_PATH: csv });
+
+    const entry = await getAllowlistEntry(ALICE);
+    expect(entry).not.toBeNull();
+    const proof = entry!.proof;
+    expect(await check(ALICE, 2, proof)).toBeNull();
+    expect(await check(ALICE, 1)).toBe('invalid_proof');
+    expect(await check(ALICE, 1, ['0x' + '0'.repeat(64)])).toBe('invalid_proof');
+    expect(await check(ALICE, 3, proof)).toBe('allocation_exceeded');
+    expect(await check(BOB, 1, proof)).toBe('not_allowlisted');
+
+    await mint(ALICE, 1);
+    expect(await check(ALICE, 2, proof)).toBe('allocation_exceeded');
+    expect(await check(ALICE, 1, proof)).toBeNull();
+  });
+});
@@ -0,0 +1,53 @@
+import { assertAllowlisted } from '@/lib/allowlist';
+import { getMintProvider, MintError } from '@/lib/mint';
+import { getDropSnapshot } from './feed';
+
+/**
+ * Server-side gate in front of every quote and mint. The mint box clamps its
+ * quantity from the same drop config, but nothing here trusts that: a
+ * hand-crafted request for 500 is rejected with a code the client can map to
+ * its own message.
+ */
+export async function assertMintAllowed(address: string, quantity: number, proof?: string[]) {
+  const drop = await getDropSnapshot();
+
+  if (!Number.isInteger(quantity) || quantity < 1 || quantity > drop.maxPerTransaction) {
+    throw new MintError('quantity_out_of_range', `Quantity must be between 1 and ${drop.maxPerTransaction}`);
+  }
+
+  switch (drop.phase.phase) {
+    case 'allowlist':
+    case 'public':
+      break;
+    case 'sold_out':
+      throw new MintError('sold_out', 'The drop is sold out');
+    default:
+      throw new MintError('drop_not_open', 'The drop is not open');
+  }
+
+  if (quantity > drop.remaining) {
+    throw new MintError('exceeds_remaining_supply', `Only ${drop.remaining} left`);
+  }
+
+  const owned = await getMintProvider().getMintedCount(address);
+  if (owned + quantity > drop.perWalletCap) {
+    throw new MintError(
+      'wallet_cap_reached',
+      `Wallets can mint up to ${drop.perWalletCap}; this one has ${Math.max(drop.perWalletCap - owned, 0)} left`
+    );
+  }
+
+  if (drop.phase.phase === 'allowlist') await assertAllowlisted(address, quantity, proof);
+}
+
+const globalForLimits = globalThis as unknown as { mintLock?: Promise<unknown> };
+
+/**
+ * Runs check-then-mint one at a time, so two requests from the same wallet
+ * can't both pass the per-wallet check before either has minted.
+ */
+export function withMintLock<T>(fn: () => Promise<T>): Promise<T> {
+  const run = (globalForLimits.mintLock ?? Promise.resolve()).then(fn);
+  globalForLimits.mintLock = run.catch(() => { });
+  return run;
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { computeDropPhase, formatCountdown } from './phases';
+import type { DropConfig } from './types';
+
+const config: DropConfig = {
+  price: 25,
+  currency: 'USDC',
+  maxSupply: 10,
+  maxPerTransaction: 5,
+  perWalletCap: 5,
+  startsAt: '2026-01-01T00:00:00.000Z',
+  publicStartsAt: '2026-01-02T00:00:00.000Z',
+  endsAt: '2026-01-03T00:00:00.000Z',
+  tapeVariant: 'duct-silver',
+  bananaVariant: 'ripe',
+  product: 'banana',
+};
+
+const at = (iso: string) => Date.parse(iso);
+const phaseAt = (iso: string, minted = 0) => computeDropPhase(config, minted, at(iso)).phase;
+
+describe('computeDropPhase', () => {
+  it('switches phase exactly on each boundary', () => {
+    expect(phaseAt('2025-12-31T23:59:59.999Z')).toBe('upcoming');
+    expect(phaseAt(config.startsAt)).toBe('allowlist');
+    expect(phaseAt('2026-01-01T23:59:59.999Z')).toBe('allowlist');
+    expect(phaseAt(config.publicStartsAt)).toBe('public');
+    expect(phaseAt('2026-01-02T23:59:59.999Z')).toBe('public');
+    expect(phaseAt(config.endsAt)).toBe('ended');
+  });
+
+  it('says what comes next and when', () => {
+    expect(computeDropPhase(config, 0, at('2025-06-01T00:00:00Z')))
+      .toEqual({ phase: 'upcoming', since: null, until: config.startsAt, next: 'allowlist' });
+    expect(computeDropPhase(config, 0, at(config.startsAt)))
+      .toEqual({ phase: 'allowlist', since: config.startsAt, until: config.publicStartsAt, next: 'public' });
+    expect(computeDropPhase(config, 0, at(config.publicStartsAt)))
+      .toEqual({ phase: 'public', since: config.publicStartsAt, until: config.endsAt, next: 'ended' });
+    expect(computeDropPhase(config, 0, at(config.endsAt)))
+      .toEqual({ phase: 'ended', since: config.endsAt, until: null, next: null });
+  });
+
+  it('is sold out once supply is gone, whatever the schedule says', () => {
+    expect(phaseAt('2025-06-01T00:00:00Z', 10)).toBe('sold_out');
+    expect(phaseAt(config.startsAt, 10)).toBe('sold_out');
+    expect(phaseAt(config.publicStartsAt, 12)).toBe('sold_out');
+    expect(phaseAt(config.publicStartsAt, 9)).toBe('public');
+    expect(computeDropPhase(config, 10, at(config.publicStartsAt)))
+      .toEqual({ phase: 'sold_out', since: null, until: config.endsAt, next: 'ended' });
+  });
+
+  it('reports ended over sold out after the end', () => {
+    expect(phaseAt(config.endsAt, 10)).toBe('ended');
+  });
+});
+
+describe('formatCountdown', () => {
+  it('pads hours, minutes and seconds and adds days when there are any', () => {
+    expect(formatCountdown(0)).toBe('00:00:00');
+    expect(formatCountdown(-5000)).toBe('00:00:00');
+    expect(formatCountdown(61_999)).toBe('00:01:01');
+    expect(formatCountdown(((2 * 24 + 3) * 3600 + 4 * 60 + 5) * 1000)).toBe('2d 03:04:05');
+  });
+});
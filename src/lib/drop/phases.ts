@@ -0,0 +1,50 @@
+import type { DropConfig, DropPhase, DropPhaseState } from './types';
+
+/* ─── Drop lifecycle ─── */
+
+export interface PhaseCopy {
+  indicator: string;
+  button: string;
+  /** Label in front of the countdown to `until`; omitted when there's nothing to count down to. */
+  countdown?: string;
+  canMint: boolean;
+}
+
+export const PHASE_COPY: Record<DropPhase, PhaseCopy> = {
+  upcoming: { indicator: 'Not ready yet', button: 'Opens soon', countdown: 'Allowlist opens in', canMint: false },
+  allowlist: { indicator: 'Allowlist live', button: 'Connect Wallet & Mint', countdown: 'Public mint in', canMint: true },
+  public: { indicator: 'Live', button: 'Connect Wallet & Mint', countdown: 'Ends in', canMint: true },
+  sold_out: { indicator: 'Sold out', button: 'Sold out', canMint: false },
+  ended: { indicator: 'Ended', button: 'Drop ended', canMint: false },
+};
+
+/**
+ * Works out where the drop is at `now`. Only ever called on the server, with
+ * the server's clock, so a client with a skewed clock can't open the mint
+ * early.
+ */
+export function computeDropPhase(config: DropConfig, minted: number, now: number): DropPhaseState {
+  const { startsAt, publicStartsAt, endsAt } = config;
+
+  if (now >= Date.parse(endsAt)) {
+    return { phase: 'ended', since: endsAt, until: null, next: null };
+  }
+  if (minted >= config.maxSupply) {
+    return { phase: 'sold_out', since: null, until: endsAt, next: 'ended' };
+  }
+  if (now >= Date.parse(publicStartsAt)) {
+    return { phase: 'public', since: publicStartsAt, until: endsAt, next: 'ended' };
+  }
+  if (now >= Date.parse(startsAt)) {
+    return { phase: 'allowlist', since: startsAt, until: publicStartsAt, next: 'public' };
+  }
+  return { phase: 'upcoming', since: null, until: startsAt, next: 'allowlist' };
+}
+
+export function formatCountdown(ms: number): string {
+  const total = Math.max(0, Math.floor(ms / 1000));
+  const days = Math.floor(total / 86400);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const hms = `${pad(Math.floor((total % 86400) / 3600))}:${pad(Math.floor((total % 3600) / 60))}:${pad(total % 60)}`;
+  return days > 0 ? `${days}d ${hms}` : hms;
+}
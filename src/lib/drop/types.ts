@@ -0,0 +1,41 @@
+/* ─── Drop config shared between the server and the mint box ─── */
+
+export interface DropConfig {
+  price: number;
+  currency: string;
+  maxSupply: number;
+  /** Most tokens a single mint transaction may ask for. */
+  maxPerTransaction: number;
+  /** Most tokens one wallet may hold from this drop, across all transactions. */
+  perWalletCap: number;
+  /** Allowlist opens. */
+  startsAt: string;
+  /** Allowlist closes and everyone can mint. */
+  publicStartsAt: string;
+  endsAt: string;
+  /** Intro tape look: a TAPE_VARIANTS id or "random". `?tape=` overrides it. */
+  tapeVariant: string;
+  /** Intro banana ripeness: a BANANA_VARIANTS id or "random". `?banana=` overrides it. */
+  bananaVariant: string;
+  /** Hero product on the landing page: a product id from src/content/product.json. */
+  product: string;
+}
+
+export type DropPhase = 'upcoming' | 'allowlist' | 'public' | 'sold_out' | 'ended';
+
+export interface DropPhaseState {
+  phase: DropPhase;
+  /** When the current phase began, null for `upcoming`. */
+  since: string | null;
+  /** When the next scheduled phase starts, null if nothing else is scheduled. */
+  until: string | null;
+  next: DropPhase | null;
+}
+
+/** What `/api/drop` and the SSE feed hand to clients. */
+export interface DropSnapshot extends DropConfig {
+  minted: number;
+  remaining: number;
+  phase: DropPhaseState;
+  serverTime: string;
+}
@@ -0,0 +1,25 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+
+/**
+ * Milliseconds left until `target`, ticking once a second. The client clock is
+ * corrected by the offset to `serverTime`, so a wrong local clock only skews
+ * the display, never what the server allows.
+ */
+export function useCountdown(target: string | null | undefined, serverTime: string | undefined): number | null {
+  const offset = useMemo(
+    () => (serverTime ? Date.parse(serverTime) - Date.now() : 0),
+    [serverTime]
+  );
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!target) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [target]);
+
+  if (!target) return null;
+  return Math.max(Date.parse(target) - (now + offset), 0);
+}
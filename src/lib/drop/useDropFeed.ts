@@ -0,0 +1,52 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { DropSnapshot } from './types';
+
+const POLL_MS = 5000;
+
+/**
+ * Live drop state for the mint box. Subscribes to `/api/drop/events` over
+ * SSE and falls back to polling `/api/drop` if the stream can't be opened
+ * (old browsers, proxies that buffer event streams).
+ */
+export function useDropFeed(): DropSnapshot | null {
+  const [snapshot, setSnapshot] = useState<DropSnapshot | null>(null);
+
+  useEffect(() => {
+    let disposed = false;
+    let pollTimer: ReturnType<typeof setTimeout> | undefined;
+    let source: EventSource | null = null;
+
+    async function poll() {
+      try {
+        const res = await fetch('/api/drop', { cache: 'no-store' });
+        if (res.ok && !disposed) setSnapshot(await res.json());
+      } catch (_) { /* try again next tick */ }
+      if (!disposed) pollTimer = setTimeout(poll, POLL_MS);
+    }
+
+    if (typeof EventSource === 'undefined') {
+      poll();
+    } else {
+      source = new EventSource('/api/drop/events');
+      source.onmessage = (e) => {
+        if (!disposed) setSnapshot(JSON.parse(e.data));
+      };
+      source.onerror = () => {
+        // EventSource retries on its own while CONNECTING; only give up once it's CLOSED
+        if (source?.readyState !== EventSource.CLOSED) return;
+        source = null;
+        poll();
+      };
+    }
+
+    return () => {
+      disposed = true;
+      source?.close();
+      clearTimeout(pollTimer);
+    };
+  }, []);
+
+  return snapshot;
+}
@@ -0,0 +1,48 @@
+import * as THREE from 'three';
+
+/* ─── Lighting presets for product viewers ─── */
+
+export const LIGHTING_PRESETS = ['studio', 'warm', 'dramatic'] as const;
+
+export type LightingPreset = (typeof LIGHTING_PRESETS)[number];
+
+interface LightDef {
+  color: number;
+  intensity: number;
+  /** Directional lights only; ambient when omitted. */
+  position?: [number, number, number];
+}
+
+const PRESETS: Record<LightingPreset, LightDef[]> = {
+  // Neutral key/fill/rim, the original product look
+  studio: [
+    { color: 0xffffff, intensity: 0.6 },
+    { color: 0xffffff, intensity: 1.4, position: [3, 4, 5] },
+    { color: 0xccccff, intensity: 0.5, position: [-3, 2, 3] },
+    { color: 0xffffff, intensity: 0.8, position: [0, -2, -4] },
+  ],
+  warm: [
+    { color: 0xfff1e0, intensity: 0.7 },
+    { color: 0xffd9a0, intensity: 1.3, position: [3, 4, 5] },
+    { color: 0xffe8cc, intensity: 0.4, position: [-3, 2, 3] },
+    { color: 0xffffff, intensity: 0.6, position: [0, -2, -4] },
+  ],
+  // Low fill and a hard side key for a darker hero
+  dramatic: [
+    { color: 0xffffff, intensity: 0.15 },
+    { color: 0xffffff, intensity: 2.2, position: [5, 3, 2] },
+    { color: 0xaabbff, intensity: 1.2, position: [-2, 1, -4] },
+  ],
+};
+
+export function addLighting(scene: THREE.Scene, preset: LightingPreset) {
+  PRESETS[preset].forEach(({ color, intensity, position }) => {
+    if (!position) {
+      scene.add(new THREE.AmbientLight(color, intensity));
+      return;
+    }
+    const light = new THREE.DirectionalLight(color, intensity);
+    light.position.set(...position);
+    scene.add(light);
+  });
+}
@@ -0,0 +1,224 @@
+import type * as THREE from 'three';
+import { GLTFLoader, type GLTF } from 'three/addons/loaders/GLTFLoader.js';
+import { DRACOLoader } from 'three/addons/loaders/DRACOLoader.js';
+import { KTX2Loader } from 'three/addons/loaders/KTX2Loader.js';
+import { MeshoptDecoder } from 'three/addons/libs/meshopt_decoder.module.js';
+
+/*
+ * Shared GLB loading for every scene. Bytes are fetched once per URL with
+ * real progress, a stall timeout and retries; each caller then parses its
+ * own copy so scenes never share (and dispose) each other's meshes.
+ *
+ * Models in public/models come out of scripts/optimize-models.mjs, so the
+ * parser is set up for Draco/Meshopt geometry and KTX2 textures; WebP, the
+ * script's default, decodes natively. Decoders are served from
+ * public/decoders (copied from three on install and before each build).
+ */
+
+export type ModelLoadErrorCode = 'timeout' | 'network' | 'http' | 'parse';
+
+export class ModelLoadError extends Error {
+  readonly code: ModelLoadErrorCode;
+  /** HTTP status for 'http' errors. */
+  readonly status?: number;
+
+  constructor(code: ModelLoadErrorCode, message: string, status?: number) {
+    super(message);
+    this.name = 'ModelLoadError';
+    this.code = code;
+    this.status = status;
+  }
+}
+
+export interface LoadModelOptions {
+  /** 0..1, or null while the size is unknown (no Content-Length). */
+  onProgress?: (fraction: number | null) => void;
+  /** Lets KTX2 textures transcode to a format this GPU supports. */
+  renderer?: THREE.WebGLRenderer;
+}
+
+const DECODER_PATH = '/decoders/';
+
+// Abort an attempt when no bytes have arrived for this long
+const STALL_TIMEOUT_MS = 15_000;
+const RETRIES = 3;
+const BACKOFF_BASE_MS = 800;
+
+interface Entry {
+  bytes: Promise<ArrayBuffer>;
+  loaded: number;
+  total: number | null;
+  listeners: Set<(fraction: number | null) => void>;
+}
+
+const entries = new Map<string, Entry>();
+let foreground = 0;
+let idleWaiters: (() => void)[] = [];
+
+function fraction(entry: Entry): number | null {
+  return entry.total ? Math.min(entry.loaded / entry.total, 1) : null;
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function fetchOnce(url: string, entry: Entry): Promise<ArrayBuffer> {
+  const controller = new AbortController();
+  let stalled = false;
+  let timer = setTimeout(() => { stalled = true; controller.abort(); }, STALL_TIMEOUT_MS);
+  const bump = () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => { stalled = true; controller.abort(); }, STALL_TIMEOUT_MS);
+  };
+
+  try {
+    let res: Response;
+    try {
+      res = await fetch(url, { signal: controller.signal });
+    } catch (_) {
+      throw stalled
+        ? new ModelLoadError('timeout', `Timed out loading ${url}`)
+        : new ModelLoadError('network', `Network error loading ${url}`);
+    }
+    if (!res.ok) throw new ModelLoadError('http', `Failed to load ${url} (${res.status})`, res.status);
+
+    const length = Number(res.headers.get('Content-Length'));
+    entry.total = length > 0 ? length : null;
+    entry.loaded = 0;
+
+    if (!res.body) {
+      const buffer = await res.arrayBuffer();
+      entry.loaded = buffer.byteLength;
+      entry.listeners.forEach((l) => l(1));
+      return buffer;
+    }
+
+    const reader = res.body.getReader();
+    const chunks: Uint8Array[] = [];
+    for (;;) {
+      let step: ReadableStreamReadResult<Uint8Array>;
+      try {
+        step = await reader.read();
+      } catch (_) {
+        throw stalled
+          ? new ModelLoadError('timeout', `Timed out loading ${url}`)
+          : new ModelLoadError('network', `Connection dropped loading ${url}`);
+      }
+      if (step.done) break;
+      chunks.push(step.value);
+      entry.loaded += step.value.byteLength;
+      bump();
+      const f = fraction(entry);
+      entry.listeners.forEach((l) => l(f));
+    }
+
+    const out = new Uint8Array(entry.loaded);
+    let offset = 0;
+    for (const chunk of chunks) {
+      out.set(chunk, offset);
+      offset += chunk.byteLength;
+    }
+    return out.buffer;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+async function fetchWithRetry(url: string, entry: Entry): Promise<ArrayBuffer> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fetchOnce(url, entry);
+    } catch (err) {
+      // A 404 won't fix itself; everything else gets a few spaced-out retries
+      const retryable = !(err instanceof ModelLoadError && err.code === 'http' && (err.status ?? 0) < 500);
+      if (!retryable || attempt >= RETRIES) throw err;
+      await sleep(BACKOFF_BASE_MS * 2 ** attempt * (0.75 + Math.random() * 0.5));
+    }
+  }
+}
+
+function getBytes(url: string): Entry {
+  const existing = entries.get(url);
+  if (existing) return existing;
+
+  const created: Entry = { bytes: Promise.resolve(new ArrayBuffer(0)), loaded: 0, total: null, listeners: new Set() };
+  created.bytes = fetchWithRetry(url, created);
+  // Forget failures so the next call (the retry button) starts over
+  created.bytes.catch(() => entries.delete(url));
+  entries.set(url, created);
+  return created;
+}
+
+let dracoLoader: DRACOLoader | null = null;
+let ktx2Loader: KTX2Loader | null = null;
+
+function getDracoLoader(): DRACOLoader {
+  if (!dracoLoader) dracoLoader = new DRACOLoader().setDecoderPath(`${DECODER_PATH}draco/`);
+  return dracoLoader;
+}
+
+function createParser(renderer?: THREE.WebGLRenderer): GLTFLoader {
+  const loader = new GLTFLoader().setDRACOLoader(getDracoLoader()).setMeshoptDecoder(MeshoptDecoder);
+  if (renderer) {
+    // GPU format support is the same for every renderer on a device, so the first one decides
+    if (!ktx2Loader) ktx2Loader = new KTX2Loader().setTranscoderPath(`${DECODER_PATH}basis/`).detectSupport(renderer);
+    loader.setKTX2Loader(ktx2Loader);
+  }
+  return loader;
+}
+
+function settleForeground() {
+  foreground--;
+  if (foreground > 0) return;
+  const waiters = idleWaiters;
+  idleWaiters = [];
+  waiters.forEach((resolve) => resolve());
+}
+
+/** Resolves once no foreground load is in flight. */
+function whenIdle(): Promise<void> {
+  if (foreground === 0) return Promise.resolve();
+  return new Promise((resolve) => idleWaiters.push(resolve));
+}
+
+/** Fetches (or reuses) the GLB at `url` and parses a fresh scene graph from it. */
+export async function loadModel(url: string, options: LoadModelOptions = {}): Promise<GLTF> {
+  foreground++;
+  const entry = getBytes(url);
+  // Fetch and compile the Draco decoder while the model downloads
+  getDracoLoader().preload();
+  const { onProgress, renderer } = options;
+  if (onProgress) {
+    entry.listeners.add(onProgress);
+    onProgress(fraction(entry));
+  }
+
+  try {
+    const bytes = await entry.bytes;
+    onProgress?.(1);
+    const base = url.slice(0, url.lastIndexOf('/') + 1);
+    try {
+      return await createParser(renderer).parseAsync(bytes, base);
+    } catch (err) {
+      // Don't keep serving bytes that can't be parsed
+      if (entries.get(url) === entry) entries.delete(url);
+      throw new ModelLoadError('parse', `Could not read ${url}: ${(err as Error).message}`);
+    }
+  } finally {
+    if (onProgress) entry.listeners.delete(onProgress);
+    settleForeground();
+  }
+}
+
+/**
+ * Warms the byte cache for a model that will be needed later (the landing
+ * viewer, while the intro plays). Waits for foreground loads so it never
+ * competes with what's on screen. Errors are swallowed; the real load retries.
+ */
+export function prefetchModel(url: string) {
+  if (typeof window === 'undefined' || entries.has(url)) return;
+  whenIdle().then(() => {
+    if (!entries.has(url)) getBytes(url).bytes.catch(() => { });
+  });
+}
@@ -0,0 +1,115 @@
+import * as THREE from 'three';
+
+/* ─── Render quality tiers ─── */
+
+export type QualityTier = 'low' | 'medium' | 'high';
+
+export interface QualitySettings {
+  maxPixelRatio: number;
+  shadows: boolean;
+  shadowMapSize: number;
+  antialias: boolean;
+}
+
+export const QUALITY: Record<QualityTier, QualitySettings> = {
+  low: { maxPixelRatio: 1, shadows: false, shadowMapSize: 512, antialias: false },
+  medium: { maxPixelRatio: 1.5, shadows: true, shadowMapSize: 1024, antialias: true },
+  high: { maxPixelRatio: 2, shadows: true, shadowMapSize: 2048, antialias: true },
+};
+
+const LOWER: Record<QualityTier, QualityTier> = { high: 'medium', medium: 'low', low: 'low' };
+
+export function lowerTier(tier: QualityTier): QualityTier {
+  return LOWER[tier];
+}
+
+interface DeviceHints {
+  deviceMemory?: number;
+  connection?: { saveData?: boolean };
+}
+
+/**
+ * Starting tier from what the browser tells us up front. It's only a guess;
+ * FrameTimeMonitor corrects it once real frames have been measured.
+ */
+export function pickInitialTier(viewportWidth: number): QualityTier {
+  if (typeof navigator === 'undefined') return 'medium';
+  const hints = navigator as Navigator & DeviceHints;
+  const memory = hints.deviceMemory ?? 8;
+  const cores = navigator.hardwareConcurrency ?? 8;
+
+  if (hints.connection?.saveData || memory <= 2 || cores <= 2) return 'low';
+  if (viewportWidth < 768 || memory <= 4 || cores <= 4) return 'medium';
+  return 'high';
+}
+
+/**
+ * Applies everything about a tier that can change on a live context: pixel
+ * ratio, whether shadows render, and shadow map resolution. Shadows are only
+ * switched on for scenes that have a shadow-casting light.
+ */
+export function applyQualityTier(renderer: THREE.WebGLRenderer, scene: THREE.Scene, tier: QualityTier) {
+  const q = QUALITY[tier];
+  renderer.setPixelRatio(Math.min(window.devicePixelRatio, q.maxPixelRatio));
+
+  const casters: THREE.DirectionalLight[] = [];
+  scene.traverse((obj) => {
+    if ((obj as THREE.DirectionalLight).isDirectionalLight && obj.castShadow) casters.push(obj as THREE.DirectionalLight);
+  });
+
+  const shadows = q.shadows && casters.length > 0;
+  casters.forEach((light) => {
+    if (light.shadow.mapSize.x === q.shadowMapSize) return;
+    light.shadow.mapSize.set(q.shadowMapSize, q.shadowMapSize);
+    // The map is reallocated at the new size on the next shadow pass
+    light.shadow.map?.dispose();
+    light.shadow.map = null;
+  });
+
+  if (renderer.shadowMap.enabled !== shadows) {
+    renderer.shadowMap.enabled = shadows;
+    // Shadow receiving is compiled into the shaders, so they need rebuilding
+    scene.traverse((obj) => {
+      const mat = (obj as THREE.Mesh).material;
+      if (!mat) return;
+      (Array.isArray(mat) ? mat : [mat]).forEach((m) => { m.needsUpdate = true; });
+    });
+  }
+}
+
+/**
+ * Watches frame times and reports when the device can't keep up with the
+ * current tier. Only ever steps down: flipping back up would make a borderline
+ * device oscillate between tiers.
+ */
+export class FrameTimeMonitor {
+  private samples: number[] = [];
+  private skipped = 0;
+
+  constructor(
+    /** Average frame time (seconds) above which the tier should drop. */
+    private readonly budget = 1 / 40,
+    private readonly windowSize = 90,
+    /** Frames ignored after start or a downgrade while shaders compile and caches warm. */
+    private readonly warmup = 30
+  ) { }
+
+  /** Feed one frame's duration. Returns true when a downgrade is due. */
+  sample(dt: number): boolean {
+    if (this.skipped < this.warmup) {
+      this.skipped++;
+      return false;
+    }
+    // Stalls from background tabs or the debugger aren't rendering cost
+    if (dt > 0.25) return false;
+
+    this.samples.push(dt);
+    if (this.samples.length < this.windowSize) return false;
+
+    const avg = this.samples.reduce((a, b) => a + b, 0) / this.samples.length;
+    this.samples = [];
+    if (avg <= this.budget) return false;
+    this.skipped = 0;
+    return true;
+  }
+}
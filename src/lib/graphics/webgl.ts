@@ -0,0 +1,65 @@
+import * as THREE from 'three';
+import { QUALITY, type QualityTier } from './quality';
+
+let available: boolean | null = null;
+
+/**
+ * Whether this browser can create a WebGL context at all. Probed once with a
+ * throwaway canvas; blocklisted GPUs and disabled hardware acceleration
+ * both show up here as a null context.
+ */
+export function isWebGLAvailable(): boolean {
+  if (available !== null) return available;
+  if (typeof window === 'undefined') return false;
+  try {
+    const canvas = document.createElement('canvas');
+    const gl = canvas.getContext('webgl2') ?? canvas.getContext('webgl');
+    available = !!gl;
+    (gl?.getExtension('WEBGL_lose_context') as WEBGL_lose_context | null)?.loseContext();
+  } catch (_) {
+    available = false;
+  }
+  return available;
+}
+
+/**
+ * Builds a renderer for the given tier, or returns null when context creation
+ * fails anyway (it can, even after isWebGLAvailable said yes). Antialias is
+ * fixed for the life of the context, so it only comes from the starting tier.
+ */
+export function createRenderer(
+  tier: QualityTier,
+  params: Omit<THREE.WebGLRendererParameters, 'antialias'> = {}
+): THREE.WebGLRenderer | null {
+  try {
+    return new THREE.WebGLRenderer({ ...params, antialias: QUALITY[tier].antialias });
+  } catch (err) {
+    console.warn('WebGL renderer unavailable:', err);
+    available = false;
+    return null;
+  }
+}
+
+export interface ContextLossHandlers {
+  onLost(): void;
+  onRestored(): void;
+}
+
+/**
+ * Mobile browsers drop contexts under memory pressure or when the tab is
+ * backgrounded. Calling preventDefault on the loss tells the browser we want
+ * it back; three.js re-uploads its resources once it's restored.
+ */
+export function watchContextLoss(canvas: HTMLCanvasElement, handlers: ContextLossHandlers): () => void {
+  const onLost = (e: Event) => {
+    e.preventDefault();
+    handlers.onLost();
+  };
+  const onRestored = () => handlers.onRestored();
+  canvas.addEventListener('webglcontextlost', onLost);
+  canvas.addEventListener('webglcontextrestored', onRestored);
+  return () => {
+    canvas.removeEventListener('webglcontextlost', onLost);
+    canvas.removeEventListener('webglcontextrestored', onRestored);
+  };
+}
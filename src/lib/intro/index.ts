@@ -0,0 +1,66 @@
+import type { Phase } from './phases';
+
+/* ─── Returning visitors skip the intro (localStorage) ─── */
+
+const STORAGE_KEY = 'bv.introDone';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * How long a finished intro is remembered, from NEXT_PUBLIC_INTRO_REMEMBER_DAYS:
+ * unset means for good, 0 turns remembering off.
+ */
+function rememberMs(): number {
+  const raw = process.env.NEXT_PUBLIC_INTRO_REMEMBER_DAYS;
+  if (raw === undefined || raw === '') return Infinity;
+  const days = Number(raw);
+  return Number.isFinite(days) && days >= 0 ? days * DAY_MS : Infinity;
+}
+
+export function rememberIntroDone() {
+  if (rememberMs() === 0) return;
+  try { localStorage.setItem(STORAGE_KEY, String(Date.now())); } catch (_) { /* not persisted */ }
+}
+
+function introDoneRecently(): boolean {
+  try {
+    const at = Number(localStorage.getItem(STORAGE_KEY));
+    if (!at) return false;
+    if (Date.now() - at < rememberMs()) return true;
+    localStorage.removeItem(STORAGE_KEY);
+  } catch (_) { /* storage disabled */ }
+  return false;
+}
+
+/** Why the landing page should show straight away, or null to play the intro. */
+export type IntroSkipReason = 'history' | 'link' | 'returning';
+
+/**
+ * Checked once on load, in order: a history entry already on the landing
+ * phase (reload, back from another site), a deep link (`/#roadmap`,
+ * `?skipIntro=1`), then a remembered finished intro.
+ */
+export function introSkipReason(): IntroSkipReason | null {
+  const state = window.history.state as { phase?: string } | null;
+  if (state?.phase === 'landing') return 'history';
+
+  const url = new URL(window.location.href);
+  const skip = url.searchParams.get('skipIntro');
+  // Only the landing page has anchors, so any fragment is a link into it
+  if (url.hash.length > 1 || (skip !== null && skip !== '0' && skip !== 'false')) return 'link';
+
+  return introDoneRecently() ? 'returning' : null;
+}
+
+/* ─── Phase on each history entry ─── */
+
+/** Phase kept on each history entry, so back/forward move between intro and landing. */
+export interface PhaseHistoryState {
+  phase?: Phase;
+}
+
+export function writePhase(phase: Phase, mode: 'push' | 'replace') {
+  // Spread keeps the router's own keys on the entry
+  const state = { ...window.history.state, phase };
+  if (mode === 'push') window.history.pushState(state, '');
+  else window.history.replaceState(state, '');
+}
@@ -0,0 +1,132 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { introSkipReason, rememberIntroDone, writePhase } from '.';
+
+/*
+ * The browser bits introSkipReason reads — history state, the URL and
+ * localStorage — stubbed as plain objects, with a fake clock for expiry.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let storage: Map<string, string>;
+let history: { state: unknown; pushState: ReturnType<typeof vi.fn>; replaceState: ReturnType<typeof vi.fn> };
+
+function visit(url = 'https://example.com/', state: unknown = null) {
+  history.state = state;
+  vi.stubGlobal('window', { history, location: { href: url } });
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date('2026-10-01T12:00:00Z'));
+  storage = new Map();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => { storage.set(key, value); },
+    removeItem: (key: string) => { storage.delete(key); },
+  });
+  history = {
+    state: null,
+    pushState: vi.fn((state: unknown) => { history.state = state; }),
+    replaceState: vi.fn((state: unknown) => { history.state = state; }),
+  };
+  visit();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.unstubAllEnvs();
+});
+
+describe('introSkipReason', () => {
+  it('plays the intro for a first visit', () => {
+    expect(introSkipReason()).toBeNull();
+  });
+
+  it('skips for a history entry already on the landing page', () => {
+    visit('https://example.com/', { phase: 'landing', __NA: true });
+    expect(introSkipReason()).toBe('history');
+    visit('https://example.com/', { phase: 'intro' });
+    expect(introSkipReason()).toBeNull();
+  });
+
+  it('skips for deep links', () => {
+    visit('https://example.com/#roadmap');
+    expect(introSkipReason()).toBe('link');
+    visit('https://example.com/?skipIntro=1');
+    expect(introSkipReason()).toBe('link');
+    visit('https://example.com/?skipIntro');
+    expect(introSkipReason()).toBe('link');
+    visit('https://example.com/#');
+    expect(introSkipReason()).toBeNull();
+    visit('https://example.com/?skipIntro=0');
+    expect(introSkipReason()).toBeNull();
+    visit('https://example.com/?skipIntro=false');
+    expect(introSkipReason()).toBeNull();
+  });
+
+  it('checks history before the URL and the URL before storage', () => {
+    rememberIntroDone();
+    visit('https://example.com/#roadmap', { phase: 'landing' });
+    expect(introSkipReason()).toBe('history');
+    visit('https://example.com/#roadmap');
+    expect(introSkipReason()).toBe('link');
+    visit();
+    expect(introSkipReason()).toBe('returning');
+  });
+
+  it('remembers a finished intro for good by default', () => {
+    rememberIntroDone();
+    vi.advanceTimersByTime(365 * DAY_MS);
+    expect(introSkipReason()).toBe('returning');
+  });
+
+  it('forgets a finished intro after NEXT_PUBLIC_INTRO_REMEMBER_DAYS', () => {
+    vi.stubEnv('NEXT_PUBLIC_INTRO_REMEMBER_DAYS', '7');
+    rememberIntroDone();
+    vi.advanceTimersByTime(7 * DAY_MS - 1);
+    expect(introSkipReason()).toBe('returning');
+    vi.advanceTimersByTime(1);
+    expect(introSkipReason()).toBeNull();
+    // The expired entry is cleared, not just ignored
+    expect(storage.size).toBe(0);
+  });
+
+  it('never remembers with NEXT_PUBLIC_INTRO_REMEMBER_DAYS=0', () => {
+    vi.stubEnv('NEXT_PUBLIC_INTRO_REMEMBER_DAYS', '0');
+    rememberIntroDone();
+    expect(storage.size).toBe(0);
+    expect(introSkipReason()).toBeNull();
+  });
+
+  it('treats unreadable storage as a first visit', () => {
+    storage.set('bv.introDone', 'not a time');
+    expect(introSkipReason()).toBeNull();
+    vi.stubGlobal('localStorage', {
+      getItem: () => { throw new Error('SecurityError'); },
+      setItem: () => { throw new Error('SecurityError'); },
+      removeItem: () => { throw new Error('SecurityError'); },
+    });
+    expect(() => rememberIntroDone()).not.toThrow();
+    expect(introSkipReason()).toBeNull();
+  });
+});
+
+describe('writePhase', () => {
+  it('pushes or replaces the entry, keeping the router’s own keys', () => {
+    visit('https://example.com/', { __NA: true, __PRIVATE_NEXTJS_INTERNALS_TREE: 'tree' });
+    writePhase('intro', 'replace');
+    expect(history.replaceState).toHaveBeenCalledWith({ __NA: true, __PRIVATE_NEXTJS_INTERNALS_TREE: 'tree', phase: 'intro' }, '');
+    expect(history.pushState).not.toHaveBeenCalled();
+
+    writePhase('landing', 'push');
+    expect(history.pushState).toHaveBeenCalledWith({ __NA: true, __PRIVATE_NEXTJS_INTERNALS_TREE: 'tree', phase: 'landing' }, '');
+    expect(introSkipReason()).toBe('history');
+  });
+
+  it('starts a fresh state when the entry has none', () => {
+    writePhase('landing', 'replace');
+    expect(history.replaceState).toHaveBeenCalledWith({ phase: 'landing' }, '');
+  });
+});
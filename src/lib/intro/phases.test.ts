@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { PHASE_EDGES, findEdge, go, isMounted, layerAnimation, settle, type PhaseState } from './phases';
+
+const toLanding = findEdge('intro', 'landing')!;
+const toIntro = findEdge('landing', 'intro')!;
+
+describe('PHASE_EDGES', () => {
+  it('has exactly one edge each way between intro and landing', () => {
+    expect(PHASE_EDGES.map(({ from, to }) => `${from}→${to}`).sort()).toEqual(['intro→landing', 'landing→intro']);
+    expect(toLanding).toMatchObject({ from: 'intro', to: 'landing' });
+    expect(toIntro).toMatchObject({ from: 'landing', to: 'intro' });
+  });
+
+  it('has no edge from a phase to itself', () => {
+    expect(findEdge('intro', 'intro')).toBeNull();
+    expect(findEdge('landing', 'landing')).toBeNull();
+  });
+
+  it('animates only the landing layer', () => {
+    expect(toLanding.enter).toBeTruthy();
+    expect(toLanding.exit).toBeUndefined();
+    expect(toIntro.enter).toBeUndefined();
+    expect(toIntro.exit).toBeTruthy();
+  });
+});
+
+describe('go', () => {
+  it('switches instantly on the first render or without animation', () => {
+    expect(go(null, 'landing')).toEqual({ phase: 'landing', edge: null });
+    const intro: PhaseState = { phase: 'intro', edge: null };
+    expect(go(intro, 'landing', { animate: false })).toEqual({ phase: 'landing', edge: null });
+  });
+
+  it('follows the edge between two phases', () => {
+    const intro: PhaseState = { phase: 'intro', edge: null };
+    expect(go(intro, 'landing')).toEqual({ phase: 'landing', edge: toLanding });
+    expect(go({ phase: 'landing', edge: null }, 'intro')).toEqual({ phase: 'intro', edge: toIntro });
+  });
+
+  it('stays put when already there, mid-edge included', () => {
+    const landing: PhaseState = { phase: 'landing', edge: toLanding };
+    expect(go(landing, 'landing')).toBe(landing);
+  });
+
+  it('turns back mid-edge along the reverse edge', () => {
+    expect(go({ phase: 'landing', edge: toLanding }, 'intro')).toEqual({ phase: 'intro', edge: toIntro });
+  });
+});
+
+describe('settle', () => {
+  it('drops the edge and leaves settled states alone', () => {
+    expect(settle({ phase: 'landing', edge: toLanding })).toEqual({ phase: 'landing', edge: null });
+    const settled: PhaseState = { phase: 'intro', edge: null };
+    expect(settle(settled)).toBe(settled);
+  });
+});
+
+describe('layers', () => {
+  it('keeps the layer being left mounted until the edge settles', () => {
+    const moving = go({ phase: 'intro', edge: null }, 'landing');
+    expect(isMounted(moving, 'intro')).toBe(true);
+    expect(isMounted(moving, 'landing')).toBe(true);
+    expect(layerAnimation(moving, 'landing')).toBe(toLanding.enter);
+    expect(layerAnimation(moving, 'intro')).toBeUndefined();
+
+    const settled = settle(moving);
+    expect(isMounted(settled, 'intro')).toBe(false);
+    expect(layerAnimation(settled, 'landing')).toBeUndefined();
+  });
+
+  it('plays the exit on the landing layer on the way back', () => {
+    const back = go({ phase: 'landing', edge: null }, 'intro');
+    expect(isMounted(back, 'landing')).toBe(true);
+    expect(layerAnimation(back, 'landing')).toBe(toIntro.exit);
+    expect(layerAnimation(back, 'intro')).toBeUndefined();
+  });
+});
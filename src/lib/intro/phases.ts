@@ -0,0 +1,62 @@
+/* ─── Page phases and the animated edges between them ─── */
+
+export type Phase = 'intro' | 'landing';
+
+export interface PhaseEdge {
+  from: Phase;
+  to: Phase;
+  /** ms until the edge settles and the layer being left unmounts. */
+  duration: number;
+  /** CSS animation on the layer of the phase being entered. */
+  enter?: string;
+  /** CSS animation on the layer of the phase being left. */
+  exit?: string;
+}
+
+/**
+ * Every move the page can animate. The landing layer always sits above the
+ * scene, so both edges animate the landing page and leave the scene still.
+ */
+export const PHASE_EDGES: readonly PhaseEdge[] = [
+  // Slides up over the scene, which keeps rendering the empty wall behind it
+  { from: 'intro', to: 'landing', duration: 1000, enter: 'slideUpIn 0.8s cubic-bezier(0.16, 1, 0.3, 1) forwards' },
+  // Peel again: a fresh scene mounts underneath and the landing page drops away
+  { from: 'landing', to: 'intro', duration: 900, exit: 'slideDownOut 0.8s cubic-bezier(0.7, 0, 0.84, 0) forwards' },
+];
+
+export interface PhaseState {
+  phase: Phase;
+  /** The edge being played into `phase`; null once settled. */
+  edge: PhaseEdge | null;
+}
+
+export function findEdge(from: Phase, to: Phase): PhaseEdge | null {
+  return PHASE_EDGES.find((e) => e.from === from && e.to === to) ?? null;
+}
+
+/**
+ * Moves to `to` along its edge. Pairs without an edge, or `animate: false`
+ * (the first render), switch instantly. Turning back mid-edge starts the
+ * reverse edge from the phase being entered.
+ */
+export function go(state: PhaseState | null, to: Phase, { animate = true } = {}): PhaseState {
+  if (!state || !animate) return { phase: to, edge: null };
+  if (state.phase === to) return state;
+  return { phase: to, edge: findEdge(state.phase, to) };
+}
+
+export function settle(state: PhaseState): PhaseState {
+  return state.edge ? { phase: state.phase, edge: null } : state;
+}
+
+/** Whether a phase's layer is on screen: its own phase, or the one an edge is leaving. */
+export function isMounted(state: PhaseState, phase: Phase): boolean {
+  return state.phase === phase || state.edge?.from === phase;
+}
+
+export function layerAnimation(state: PhaseState, phase: Phase): string | undefined {
+  if (!state.edge) return undefined;
+  if (state.edge.to === phase) return state.edge.enter;
+  if (state.edge.from === phase) return state.edge.exit;
+  return undefined;
+}
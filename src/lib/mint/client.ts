@@ -0,0 +1,58 @@
+import type { MintErrorCode } from './errors';
+import type { MintAccount, MintQuote, MintReceipt } from './types';
+
+/* ─── Browser-side wrapper around the /api/mint routes ─── */
+
+export class MintRequestError extends Error {
+  readonly code: MintErrorCode;
+
+  constructor(code: MintErrorCode, message: string) {
+    super(message);
+    this.name = 'MintRequestError';
+    this.code = code;
+  }
+}
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  let res: Response;
+  try {
+    res = await fetch(url, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', ...init?.headers },
+    });
+  } catch (_) {
+    throw new MintRequestError('provider_error', 'Network error, please try again');
+  }
+
+  const body = await res.json().catch(() => null);
+  if (!res.ok) {
+    const error = body?.error;
+    throw new MintRequestError(error?.code ?? 'provider_error', error?.message ?? `Request failed (${res.status})`);
+  }
+  return body as T;
+}
+
+function post<T>(url: string, data: unknown) {
+  return request<T>(url, { method: 'POST', body: JSON.stringify(data) });
+}
+
+export async function connect(address?: string): Promise<MintAccount> {
+  return (await post<{ account: MintAccount }>('/api/mint/connect', { address })).account;
+}
+
+/** `proof` is the wallet's allowlist proof, needed while the drop is in presale. */
+export async function quote(address: string, quantity: number, proof?: string[]): Promise<MintQuote> {
+  return (await post<{ quote: MintQuote }>('/api/mint/quote', { address, quantity, proof })).quote;
+}
+
+export async function mint(quoteId: string): Promise<MintReceipt> {
+  return (await post<{ receipt: MintReceipt }>('/api/mint', { quoteId })).receipt;
+}
+
+export async function getReceipt(id: string): Promise<MintReceipt> {
+  return (await request<{ receipt: MintReceipt }>(`/api/mint/receipts/${encodeURIComponent(id)}`)).receipt;
+}
+
+export async function listReceipts(address: string): Promise<MintReceipt[]> {
+  return (await request<{ receipts: MintReceipt[] }>(`/api/mint/receipts?address=${encodeURIComponent(address)}`)).receipts;
+}
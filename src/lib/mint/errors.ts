@@ -0,0 +1,50 @@
+export type MintErrorCode =
+  | 'invalid_request'
+  | 'invalid_address'
+  | 'quote_not_found'
+  | 'quote_expired'
+  | 'quote_used'
+  | 'drop_not_open'
+  | 'quantity_out_of_range'
+  | 'wallet_cap_reached'
+  | 'exceeds_remaining_supply'
+  | 'sold_out'
+  | 'not_allowlisted'
+  | 'invalid_proof'
+  | 'allocation_exceeded'
+  | 'receipt_not_found'
+  | 'provider_error';
+
+const STATUS: Record<MintErrorCode, number> = {
+  invalid_request: 400,
+  invalid_address: 400,
+  quote_not_found: 404,
+  quote_expired: 409,
+  quote_used: 409,
+  drop_not_open: 403,
+  quantity_out_of_range: 400,
+  wallet_cap_reached: 409,
+  exceeds_remaining_supply: 409,
+  sold_out: 409,
+  not_allowlisted: 403,
+  invalid_proof: 403,
+  allocation_exceeded: 409,
+  receipt_not_found: 404,
+  provider_error: 500,
+};
+
+export class MintError extends Error {
+  readonly code: MintErrorCode;
+  readonly status: number;
+
+  constructor(code: MintErrorCode, message: string) {
+    super(message);
+    this.name = 'MintError';
+    this.code = code;
+    this.status = STATUS[code];
+  }
+}
+
+export function isMintError(err: unknown): err is MintError {
+  return err instanceof MintError;
+}
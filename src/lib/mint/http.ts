@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { MintError, isMintError } from './errors';
+
+/* ─── Shared helpers for the /api/mint route handlers ─── */
+
+export async function readJson<T>(req: Request): Promise<Partial<T>> {
+  try {
+    const body = await req.json();
+    if (body && typeof body === 'object') return body as Partial<T>;
+  } catch (_) { /* fall through */ }
+  throw new MintError('invalid_request', 'Request body must be a JSON object');
+}
+
+export function errorResponse(err: unknown) {
+  if (isMintError(err)) {
+    return NextResponse.json({ error: { code: err.code, message: err.message } }, { status: err.status });
+  }
+  console.error('Mint route failed:', err);
+  return NextResponse.json(
+    { error: { code: 'provider_error', message: 'Something went wrong, please try again' } },
+    { status: 500 }
+  );
+}
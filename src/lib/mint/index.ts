@@ -0,0 +1,33 @@
+import path from 'path';
+import { getDropConfig } from '@/lib/drop/config';
+import { LocalMintProvider } from './localProvider';
+import type { MintProvider } from './types';
+
+export * from './types';
+export * from './errors';
+
+const globalForMint = globalThis as unknown as { mintProvider?: MintProvider };
+
+function createProvider(): MintProvider {
+  const kind = process.env.MINT_PROVIDER ?? 'local';
+  const drop = getDropConfig();
+  switch (kind) {
+    case 'local':
+      return new LocalMintProvider({
+        unitPrice: drop.price,
+        currency: drop.currency,
+        maxSupply: drop.maxSupply,
+        ledgerPath: process.env.MINT_LEDGER_PATH === ''
+          ? undefined
+          : path.resolve(process.env.MINT_LEDGER_PATH ?? '.data/mint-ledger.json'),
+      });
+    default:
+      throw new Error(`Unknown MINT_PROVIDER "${kind}"`);
+  }
+}
+
+/** Server-side singleton; cached on globalThis so dev hot reloads keep the same ledger. */
+export function getMintProvider(): MintProvider {
+  if (!globalForMint.mintProvider) globalForMint.mintProvider = createProvider();
+  return globalForMint.mintProvider;
+}
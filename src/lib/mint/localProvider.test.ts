@@ -0,0 +1,113 @@
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { MintError, type MintErrorCode } from './errors';
+import { LocalMintProvider, type LocalProviderOptions } from './localProvider';
+
+const ALICE = '0x' + 'a'.repeat(40);
+const BOB = '0x' + 'b'.repeat(40);
+
+function provider(options: Partial<LocalProviderOptions> = {}) {
+  return new LocalMintProvider({ unitPrice: 25, currency: 'USDC', maxSupply: 5, ...options });
+}
+
+async function rejection(promise: Promise<unknown>): Promise<MintErrorCode> {
+  const err = await promise.then(() => null, (e: unknown) => e);
+  expect(err).toBeInstanceOf(MintError);
+  return (err as MintError).code;
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('LocalMintProvider', () => {
+  it('quotes, mints and returns the receipt', async () => {
+    const p = provider();
+    const quote = await p.quote({ address: '0x' + 'A'.repeat(40), quantity: 2 });
+    expect(quote).toMatchObject({ address: ALICE, quantity: 2, unitPrice: 25, total: 50, currency: 'USDC' });
+
+    const receipt = await p.mint({ quoteId: quote.id });
+    expect(receipt).toMatchObject({ address: ALICE, quantity: 2, tokenIds: [1, 2], amountPaid: 50 });
+    expect(receipt.txHash).toMatch(/^0x[0-9a-f]{64}$/);
+
+    expect(await p.getReceipt(receipt.id)).toEqual(receipt);
+    expect(await p.getReceipt(receipt.txHash)).toEqual(receipt);
+    expect(await p.listReceipts(ALICE)).toEqual([receipt]);
+    expect(await p.getMintedCount()).toBe(2);
+    expect(await p.getMintedCount(ALICE)).toBe(2);
+    expect(await p.getMintedCount(BOB)).toBe(0);
+  });
+
+  it('hands out token ids in order across wallets', async () => {
+    const p = provider();
+    const first = await p.mint({ quoteId: (await p.quote({ address: ALICE, quantity: 2 })).id });
+    const second = await p.mint({ quoteId: (await p.quote({ address: BOB, quantity: 1 })).id });
+    expect(first.tokenIds).toEqual([1, 2]);
+    expect(second.tokenIds).toEqual([3]);
+  });
+
+  it('mints each quote once', async () => {
+    const p = provider();
+    const quote = await p.quote({ address: ALICE, quantity: 1 });
+    await p.mint({ quoteId: quote.id });
+    expect(await rejection(p.mint({ quoteId: quote.id }))).toBe('quote_used');
+    expect(await rejection(p.mint({ quoteId: 'nope' }))).toBe('quote_not_found');
+  });
+
+  it('refuses expired quotes', async () => {
+    vi.useFakeTimers();
+    const p = provider({ quoteTtlMs: 1000 });
+    const quote = await p.quote({ address: ALICE, quantity: 1 });
+    vi.advanceTimersByTime(1001);
+    expect(await rejection(p.mint({ quoteId: quote.id }))).toBe('quote_expired');
+  });
+
+  it('rejects bad addresses and quantities', async () => {
+    const p = provider();
+    expect(await rejection(p.quote({ address: '0x123', quantity: 1 }))).toBe('invalid_address');
+    expect(await rejection(p.quote({ address: ALICE, quantity: 1.5 }))).toBe('invalid_request');
+    expect(await rejection(p.connect('alice'))).toBe('invalid_address');
+  });
+
+  it('stops at the supply cap', async () => {
+    const p = provider({ maxSupply: 3 });
+    const big = await p.quote({ address: BOB, quantity: 4 });
+    const first = await p.quote({ address: ALICE, quantity: 2 });
+    const second = await p.quote({ address: BOB, quantity: 2 });
+    const last = await p.quote({ address: BOB, quantity: 1 });
+
+    expect(await rejection(p.mint({ quoteId: big.id }))).toBe('exceeds_remaining_supply');
+    await p.mint({ quoteId: first.id });
+    expect(await rejection(p.mint({ quoteId: second.id }))).toBe('exceeds_remaining_supply');
+    await p.mint({ quoteId: last.id });
+
+    const after = await p.quote({ address: ALICE, quantity: 1 });
+    expect(await rejection(p.mint({ quoteId: after.id }))).toBe('sold_out');
+    expect(await p.getMintedCount()).toBe(3);
+  });
+
+  it('does not double-assign token ids under concurrent mints', async () => {
+    const p = provider({ maxSupply: 10 });
+    const quotes = await Promise.all([1, 2, 3].map(() => p.quote({ address: ALICE, quantity: 2 })));
+    const receipts = await Promise.all(quotes.map((q) => p.mint({ quoteId: q.id })));
+    expect(receipts.flatMap((r) => r.tokenIds).sort((a, b) => a - b)).toEqual([1, 2, 3, 4, 5, 6]);
+  });
+
+  it('keeps the ledger on disk when given a path', async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), 'ledger-'));
+    try {
+      const ledgerPath = path.join(dir, 'ledger.json');
+      const p = provider({ ledgerPath });
+      const receipt = await p.mint({ quoteId: (await p.quote({ address: ALICE, quantity: 1 })).id });
+
+      const reopened = provider({ ledgerPath });
+      expect(await reopened.getReceipt(receipt.id)).toEqual(receipt);
+      const next = await reopened.mint({ quoteId: (await reopened.quote({ address: BOB, quantity: 1 })).id });
+      expect(next.tokenIds).toEqual([2]);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,176 @@
+import { randomBytes, randomUUID } from 'crypto';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import { MintError } from './errors';
+import type { MintAccount, MintProvider, MintQuote, MintReceipt, MintRequest, QuoteRequest } from './types';
+
+export interface LocalProviderOptions {
+  unitPrice: number;
+  currency: string;
+  maxSupply: number;
+  /** JSON file the ledger is persisted to. Omit to keep everything in memory. */
+  ledgerPath?: string;
+  quoteTtlMs?: number;
+}
+
+interface StoredQuote extends MintQuote {
+  used: boolean;
+}
+
+interface Ledger {
+  nextTokenId: number;
+  quotes: Record<string, StoredQuote>;
+  receipts: MintReceipt[];
+}
+
+const ADDRESS_RE = /^0x[0-9a-fA-F]{40}$/;
+
+function emptyLedger(): Ledger {
+  return { nextTokenId: 1, quotes: {}, receipts: [] };
+}
+
+function hex(bytes: number) {
+  return '0x' + randomBytes(bytes).toString('hex');
+}
+
+/**
+ * Stand-in chain adapter. Behaves like a real mint (quotes expire, supply
+ * runs out, token IDs are sequential) but settles instantly against a local
+ * ledger, so the whole purchase can be exercised without a chain.
+ */
+export class LocalMintProvider implements MintProvider {
+  readonly id = 'local';
+  private readonly opts: Required<Omit<LocalProviderOptions, 'ledgerPath'>> & { ledgerPath?: string };
+  private ledger: Ledger | null = null;
+  // Serialises every read-modify-write so concurrent requests can't double-assign token IDs
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(options: LocalProviderOptions) {
+    this.opts = { quoteTtlMs: 2 * 60 * 1000, ...options };
+  }
+
+  async connect(address?: string): Promise<MintAccount> {
+    if (address === undefined) return { address: hex(20), chainId: 'local' };
+    if (!ADDRESS_RE.test(address)) throw new MintError('invalid_address', 'Address must be a 0x-prefixed 20-byte hex string');
+    return { address: address.toLowerCase(), chainId: 'local' };
+  }
+
+  quote({ address, quantity, proof }: QuoteRequest): Promise<MintQuote> {
+    return this.withLedger((ledger) => {
+      if (!ADDRESS_RE.test(address)) throw new MintError('invalid_address', 'Address must be a 0x-prefixed 20-byte hex string');
+      if (!Number.isInteger(quantity) || quantity < 1) throw new MintError('invalid_request', 'Quantity must be a positive integer');
+
+      const quote: StoredQuote = {
+        id: randomUUID(),
+        address: address.toLowerCase(),
+        quantity,
+        unitPrice: this.opts.unitPrice,
+        total: this.opts.unitPrice * quantity,
+        currency: this.opts.currency,
+        expiresAt: new Date(Date.now() + this.opts.quoteTtlMs).toISOString(),
+        used: false,
+      };
+      if (proof) quote.proof = proof;
+
+      // Drop stale quotes so the ledger file doesn't grow forever
+      const now = Date.now();
+      for (const [id, q] of Object.entries(ledger.quotes)) {
+        if (q.used || Date.parse(q.expiresAt) < now) delete ledger.quotes[id];
+      }
+      ledger.quotes[quote.id] = quote;
+
+      const { used: _used, ...publicQuote } = quote;
+      return publicQuote;
+    });
+  }
+
+  getQuote(id: string): Promise<MintQuote | null> {
+    return this.withLedger((ledger) => {
+      const stored = ledger.quotes[id];
+      if (!stored) return null;
+      const { used: _used, ...quote } = stored;
+      return quote;
+    }, false);
+  }
+
+  mint({ quoteId }: MintRequest): Promise<MintReceipt> {
+    return this.withLedger((ledger) => {
+      const quote = ledger.quotes[quoteId];
+      if (!quote) throw new MintError('quote_not_found', 'Quote not found');
+      if (quote.used) throw new MintError('quote_used', 'Quote has already been used');
+      if (Date.parse(quote.expiresAt) < Date.now()) throw new MintError('quote_expired', 'Quote has expired');
+
+      const remaining = this.opts.maxSupply - (ledger.nextTokenId - 1);
+      if (remaining <= 0) throw new MintError('sold_out', 'The drop is sold out');
+      if (quote.quantity > remaining) throw new MintError('exceeds_remaining_supply', `Only ${remaining} left`);
+
+      const tokenIds = Array.from({ length: quote.quantity }, (_, i) => ledger.nextTokenId + i);
+      ledger.nextTokenId += quote.quantity;
+      quote.used = true;
+
+      const receipt: MintReceipt = {
+        id: randomUUID(),
+        txHash: hex(32),
+        address: quote.address,
+        quantity: quote.quantity,
+        tokenIds,
+        amountPaid: quote.total,
+        currency: quote.currency,
+        createdAt: new Date().toISOString(),
+      };
+      ledger.receipts.push(receipt);
+      return receipt;
+    });
+  }
+
+  getReceipt(id: string): Promise<MintReceipt | null> {
+    return this.withLedger((ledger) => ledger.receipts.find((r) => r.id === id || r.txHash === id) ?? null, false);
+  }
+
+  listReceipts(address: string): Promise<MintReceipt[]> {
+    const owner = address.toLowerCase();
+    return this.withLedger((ledger) => ledger.receipts.filter((r) => r.address === owner).reverse(), false);
+  }
+
+  getMintedCount(address?: string): Promise<number> {
+    return this.withLedger((ledger) => {
+      if (address === undefined) return ledger.nextTokenId - 1;
+      const owner = address.toLowerCase();
+      return ledger.receipts.reduce((n, r) => (r.address === owner ? n + r.quantity : n), 0);
+    }, false);
+  }
+
+  /* ─── Ledger persistence ─── */
+
+  private withLedger<T>(fn: (ledger: Ledger) => T, write = true): Promise<T> {
+    const run = this.queue.then(async () => {
+      const ledger = await this.load();
+      const result = fn(ledger);
+      if (write) await this.save(ledger);
+      return result;
+    });
+    this.queue = run.catch(() => { });
+    return run;
+  }
+
+  private async load(): Promise<Ledger> {
+    if (this.ledger) return this.ledger;
+    const file = this.opts.ledgerPath;
+    if (file) {
+      try {
+        this.ledger = { ...emptyLedger(), ...JSON.parse(await readFile(file, 'utf8')) as Partial<Ledger> };
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err;
+      }
+    }
+    if (!this.ledger) this.ledger = emptyLedger();
+    return this.ledger;
+  }
+
+  private async save(ledger: Ledger) {
+    const file = this.opts.ledgerPath;
+    if (!file) return;
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(file, JSON.stringify(ledger, null, 2));
+  }
+}
@@ -0,0 +1,19 @@
+import type { MintErrorCode } from './errors';
+
+/* ─── Mint box copy for each server rejection ─── */
+
+const MESSAGES: Partial<Record<MintErrorCode, string>> = {
+  drop_not_open: 'Minting isn’t open right now.',
+  quantity_out_of_range: 'That quantity isn’t allowed — try fewer.',
+  wallet_cap_reached: 'This wallet has reached its mint limit.',
+  exceeds_remaining_supply: 'Not enough left — lower the quantity.',
+  sold_out: 'Sold out. Thanks for peeling.',
+  not_allowlisted: 'This wallet isn’t on the allowlist.',
+  invalid_proof: 'The allowlist changed — please try again.',
+  allocation_exceeded: 'That’s more than your allowlist allocation.',
+  quote_expired: 'Price quote expired — please try again.',
+};
+
+export function mintErrorMessage(code: MintErrorCode, fallback: string): string {
+  return MESSAGES[code] ?? fallback;
+}
@@ -0,0 +1,58 @@
+/* ─── Mint domain types ─── */
+
+export interface MintAccount {
+  address: string;
+  chainId: string;
+}
+
+export interface QuoteRequest {
+  address: string;
+  quantity: number;
+  /** Allowlist Merkle proof, required while the drop is in its presale. */
+  proof?: string[];
+}
+
+export interface MintQuote {
+  id: string;
+  address: string;
+  quantity: number;
+  unitPrice: number;
+  total: number;
+  currency: string;
+  expiresAt: string;
+  /** The request's allowlist proof, carried to the mint like a presale transaction would. */
+  proof?: string[];
+}
+
+export interface MintRequest {
+  quoteId: string;
+}
+
+export interface MintReceipt {
+  id: string;
+  txHash: string;
+  address: string;
+  quantity: number;
+  tokenIds: number[];
+  amountPaid: number;
+  currency: string;
+  createdAt: string;
+}
+
+/**
+ * Chain adapter behind the mint box. The API routes only ever talk to this
+ * interface, so swapping the local stand-in for a real chain is a one-line
+ * change in `getMintProvider`.
+ */
+export interface MintProvider {
+  readonly id: string;
+  connect(address?: string): Promise<MintAccount>;
+  quote(request: QuoteRequest): Promise<MintQuote>;
+  getQuote(id: string): Promise<MintQuote | null>;
+  mint(request: MintRequest): Promise<MintReceipt>;
+  getReceipt(id: string): Promise<MintReceipt | null>;
+  /** Every receipt for one wallet, newest first. */
+  listReceipts(address: string): Promise<MintReceipt[]>;
+  /** Total minted, or minted by one wallet when `address` is given. */
+  getMintedCount(address?: string): Promise<number>;
+}
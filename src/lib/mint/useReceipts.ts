@@ -0,0 +1,26 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { listReceipts } from './client';
+import type { MintReceipt } from './types';
+
+/** The connected wallet's mint history. `refreshKey` refetches, e.g. after a new mint. */
+export function useReceipts(address: string | null | undefined, refreshKey?: unknown) {
+  const [receipts, setReceipts] = useState<MintReceipt[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!address) {
+      setReceipts(null);
+      return;
+    }
+    let cancelled = false;
+    setError(null);
+    listReceipts(address)
+      .then((r) => { if (!cancelled) setReceipts(r); })
+      .catch((err: Error) => { if (!cancelled) setError(err.message); });
+    return () => { cancelled = true; };
+  }, [address, refreshKey]);
+
+  return { receipts, error };
+}
@@ -0,0 +1,225 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_PEEL_OPTIONS, PeelSimulation, fallThresholdFor, type PeelEvents, type Vec3 } from './PeelSimulation';
+
+function runUntil(sim: PeelSimulation, done: () => boolean, maxSteps = 5000) {
+  for (let i = 0; i < maxSteps && !done(); i++) sim.step();
+  expect(done()).toBe(true);
+}
+
+function record<K extends keyof PeelEvents>(sim: PeelSimulation, event: K): PeelEvents[K][] {
+  const seen: PeelEvents[K][] = [];
+  sim.on(event, (payload) => seen.push(payload));
+  return seen;
+}
+
+/** A simulation pulled far enough that the banana is about to drop. */
+function drop(options: ConstructorParameters<typeof PeelSimulation>[0] = {}) {
+  const sim = new PeelSimulation({ random: () => 0.5, ...options });
+  sim.setDirection('x', 1, 0.3);
+  sim.pull(1);
+  return sim;
+}
+
+describe('fallThresholdFor', () => {
+  it('measures past the far edge of the banana from the pulled edge', () => {
+    expect(fallThresholdFor(1, 0, 10, 2, 6)).toBeCloseTo(0.65);
+    expect(fallThresholdFor(-1, 0, 10, 2, 6)).toBeCloseTo(0.85);
+  });
+
+  it('clamps to 0.3..0.95', () => {
+    expect(fallThresholdFor(1, 0, 10, 0, 1)).toBe(0.3);
+    expect(fallThresholdFor(1, 0, 10, 0, 10)).toBe(0.95);
+  });
+});
+
+describe('peeling', () => {
+  it('ignores drags until a direction is set', () => {
+    const sim = new PeelSimulation();
+    expect(sim.drag(0, 0.1)).toBe(0);
+    sim.pull(0.5);
+    expect(sim.state.targetProgress).toBe(0);
+  });
+
+  it('turns drag distance into progress by the sensitivity', () => {
+    const sim = new PeelSimulation({ sensitivity: 2 });
+    sim.setDirection('x', 1, 0.5);
+    sim.drag(0.06, 0.08);
+    expect(sim.state.targetProgress).toBeCloseTo(0.2);
+  });
+
+  it('starts over when the other edge is picked', () => {
+    const sim = new PeelSimulation();
+    sim.setDirection('x', 1, 0.5);
+    sim.pull(0.3);
+    sim.step();
+    expect(sim.setDirection('x', -1, 0.6)).toBe(true);
+    expect(sim.state.progress).toBe(0);
+    expect(sim.state.targetProgress).toBe(0);
+    expect(sim.setDirection('x', -1, 0.6)).toBe(false);
+  });
+
+  it('holds below the fall threshold', () => {
+    const sim = new PeelSimulation();
+    sim.setDirection('x', 1, 0.6);
+    sim.pull(0.55);
+    for (let i = 0; i < 600; i++) sim.step();
+    expect(sim.state.falling).toBe(false);
+    expect(sim.state.progress).toBeCloseTo(0.55);
+  });
+
+  it('drops the banana at the fall threshold, then tears at tearAt', () => {
+    const sim = new PeelSimulation({ random: () => 0.5 });
+    const falls = record(sim, 'fall');
+    const tears = record(sim, 'tear');
+    sim.setDirection('y', 1, 0.6);
+    sim.pull(0.7);
+
+    runUntil(sim, () => sim.state.falling);
+    expect(falls).toHaveLength(1);
+    expect(falls[0].progress).toBeGreaterThanOrEqual(0.6);
+    expect(sim.state.torn).toBe(false);
+
+    runUntil(sim, () => sim.state.torn);
+    expect(tears).toHaveLength(1);
+    expect(sim.state.progress).toBeGreaterThanOrEqual(sim.options.tearAt);
+    // Input no longer moves the tape once it's off
+    sim.pull(-1);
+    expect(sim.state.targetProgress).toBeCloseTo(0.7);
+  });
+});
+
+describe('falling', () => {
+  it('transitions on the way down, then bounces lower each time until it settles', () => {
+    const sim = drop();
+    const order: string[] = [];
+    sim.on('transition', () => order.push('transition'));
+    sim.on('land', () => order.push('land'));
+    sim.on('settle', () => order.push('settle'));
+    const lands = record(sim, 'land');
+
+    runUntil(sim, () => sim.state.settled);
+    expect(order[0]).toBe('transition');
+    expect(order.filter((e) => e === 'settle')).toHaveLength(1);
+    expect(order[order.length - 1]).toBe('settle');
+
+    expect(lands.length).toBeGreaterThan(1);
+    expect(lands.map((l) => l.bounce)).toEqual(lands.map((_, i) => i));
+    // Each impact comes back at about restitution × the one before (a little
+    // less on small hops, where a step is a bigger share of the flight)
+    expect(lands[1].speed / lands[0].speed).toBeCloseTo(sim.options.restitution, 1);
+    for (let i = 1; i < lands.length; i++) {
+      expect(lands[i].speed / lands[i - 1].speed).toBeLessThanOrEqual(sim.options.restitution + 0.01);
+    }
+
+    const { banana } = sim.state;
+    expect(banana.y).toBe(sim.options.floorY);
+    expect(banana.vy).toBe(0);
+    expect(banana.spin).toBe(0);
+  });
+
+  it('never sinks below the floor', () => {
+    const sim = drop();
+    let lowest = Infinity;
+    runUntil(sim, () => {
+      lowest = Math.min(lowest, sim.state.banana.y);
+      return sim.state.settled;
+    });
+    expect(lowest).toBeGreaterThanOrEqual(sim.options.floorY);
+  });
+
+  it('settles on the first landing with no restitution', () => {
+    const sim = drop({ restitution: 0 });
+    const lands = record(sim, 'land');
+    runUntil(sim, () => sim.state.settled);
+    expect(lands).toHaveLength(1);
+  });
+
+  it('bounces more with more restitution', () => {
+    const count = (restitution: number) => {
+      const sim = drop({ restitution });
+      const lands = record(sim, 'land');
+      runUntil(sim, () => sim.state.settled);
+      return lands.length;
+    };
+    expect(count(0.7)).toBeGreaterThan(count(0.3));
+  });
+
+  it('reverses and damps the spin on each bounce', () => {
+    const sim = drop();
+    let spinBefore = 0;
+    sim.on('land', () => { spinBefore = spinBefore || sim.state.banana.spin; });
+    runUntil(sim, () => sim.state.banana.vy > 0);
+    expect(sim.state.banana.spin).toBeCloseTo(sim.options.fallSpin * sim.options.spinRestitution);
+    expect(spinBefore).toBeCloseTo(sim.options.fallSpin * sim.options.spinRestitution);
+  });
+});
+
+describe('fixed step', () => {
+  it('lands on the same step at any frame rate', () => {
+    const landStep = (hz: number) => {
+      const sim = drop();
+      let step = -1;
+      sim.on('land', () => { if (step < 0) step = sim.steps; });
+      for (let i = 0; i < hz * 10 && step < 0; i++) sim.advance(1 / hz);
+      return step;
+    };
+    const at60 = landStep(60);
+    expect(at60).toBeGreaterThan(0);
+    expect(landStep(30)).toBe(at60);
+    expect(landStep(144)).toBe(at60);
+  });
+});
+
+describe('torn tape', () => {
+  function tear(options: ConstructorParameters<typeof PeelSimulation>[0] = {}) {
+    const sim = drop(options);
+    runUntil(sim, () => sim.state.torn);
+    return sim;
+  }
+
+  /** A torn tape moved straight to `position` with `velocity`, to aim it at a plane. */
+  function thrown(position: Vec3, velocity: Vec3, options: ConstructorParameters<typeof PeelSimulation>[0] = {}) {
+    const sim = tear(options);
+    sim.placeTape(position);
+    sim.state.tape.velocity = { ...velocity };
+    return sim;
+  }
+
+  it('flies off towards the camera', () => {
+    expect(tear({ random: () => 0 }).state.tape.velocity.z).toBe(0);
+    expect(tear({ random: () => 0.99 }).state.tape.velocity.z).toBeGreaterThan(0);
+  });
+
+  it('bounces off the wall at restitution × its impact speed, losing some sideways speed', () => {
+    const wallZ = DEFAULT_PEEL_OPTIONS.wallZ;
+    const sim = thrown({ x: 0, y: 0, z: wallZ + 0.1 }, { x: 1, y: 0, z: -2 }, { gravity: 0 });
+    const { tape } = sim.state;
+    runUntil(sim, () => tape.velocity.z > 0);
+    expect(tape.velocity.z).toBeCloseTo(2 * sim.options.restitution);
+    expect(tape.velocity.x).toBeCloseTo(sim.options.friction);
+    expect(tape.position.z).toBeGreaterThanOrEqual(wallZ);
+  });
+
+  it('ignores the wall while moving away from it', () => {
+    const wallZ = DEFAULT_PEEL_OPTIONS.wallZ;
+    const sim = thrown({ x: 0, y: 0, z: wallZ + 0.1 }, { x: 0, y: 0, z: 1 }, { gravity: 0 });
+    sim.step();
+    expect(sim.state.tape.velocity.z).toBe(1);
+  });
+
+  it('never passes through the wall or the floor, and comes to rest on the floor', () => {
+    const { wallZ, floorY } = DEFAULT_PEEL_OPTIONS;
+    const sim = thrown({ x: 0, y: 0, z: wallZ + 0.2 }, { x: 0.5, y: 1, z: -3 });
+    const { tape } = sim.state;
+    let nearest = Infinity;
+    let lowest = Infinity;
+    runUntil(sim, () => {
+      nearest = Math.min(nearest, tape.position.z);
+      lowest = Math.min(lowest, tape.position.y);
+      return tape.resting;
+    });
+    expect(nearest).toBeGreaterThanOrEqual(wallZ);
+    expect(lowest).toBeGreaterThanOrEqual(floorY);
+    expect(tape.position.y).toBeCloseTo(floorY, 1);
+  });
+});
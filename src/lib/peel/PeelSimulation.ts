@@ -0,0 +1,408 @@
+/*
+ * Peel → fall → tear → land, without WebGL or the DOM. SceneCanvas feeds it
+ * drag deltas and frame times and mirrors the resulting state onto the
+ * meshes; anything else (tests, replays, another scene) can drive it the
+ * same way.
+ *
+ * Physics runs at a fixed step so bounces, settling and the transition
+ * happen at the same simulated moment at 30, 60 or 120 Hz. `advance()`
+ * accumulates real frame time and `interpolate()` blends the last two steps
+ * for rendering.
+ */
+
+export interface PeelSimulationOptions {
+  /** Seconds per physics step. The easing factors below are tuned per step at 60 Hz. */
+  fixedDt: number;
+  /** Steps run per advance() at most; anything beyond is dropped rather than spiralling. */
+  maxSubSteps: number;
+  /** Progress added per unit of normalised drag distance. */
+  sensitivity: number;
+  gravity: number;
+  /** Banana height at which the landing page takes over. */
+  transitionY: number;
+  /** Banana height of the floor it bounces on; the torn tape lands on the same plane. */
+  floorY: number;
+  /** Depth of the backdrop plane behind the banana that the torn tape can hit. */
+  wallZ: number;
+  /** Fraction of normal speed kept on each bounce. */
+  restitution: number;
+  /** Fraction of tangential speed kept when the tape hits the floor or wall. */
+  friction: number;
+  /** Exponential decay of spin per second. 0 keeps the original undamped tumble. */
+  angularDamping: number;
+  /** Factor applied to spin on each bounce (negative reverses it). */
+  spinRestitution: number;
+  /** Below this rebound speed the banana stops bouncing. */
+  settleSpeed: number;
+  /** Initial tumble speed once the banana starts falling (rad/s). */
+  fallSpin: number;
+  /** Drag can overshoot 1 slightly so the last bit of tape comes away cleanly. */
+  maxProgress: number;
+  /** Progress at which the tape tears off once the banana is falling. */
+  tearAt: number;
+  /** Per-step smoothing towards the dragged target while peeling. */
+  peelEase: number;
+  /** Per-step smoothing towards maxProgress once the banana is falling. */
+  fallEase: number;
+  /** Injectable for deterministic tests and replays. */
+  random: () => number;
+}
+
+export const DEFAULT_PEEL_OPTIONS: PeelSimulationOptions = {
+  fixedDt: 1 / 60,
+  maxSubSteps: 4,
+  sensitivity: 3.5,
+  gravity: 9.8,
+  transitionY: -2,
+  floorY: -3,
+  wallZ: -1.2,
+  restitution: 0.45,
+  friction: 0.6,
+  angularDamping: 0,
+  spinRestitution: -0.5,
+  settleSpeed: 0.4,
+  fallSpin: 2.0,
+  maxProgress: 1.05,
+  tearAt: 0.99,
+  peelEase: 0.15,
+  fallEase: 0.3,
+  random: Math.random,
+};
+
+export interface Vec3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface PeelState {
+  /** True once a peel direction has been chosen. */
+  configured: boolean;
+  axis: string | null;
+  sign: number;
+  fallThreshold: number;
+  targetProgress: number;
+  progress: number;
+  falling: boolean;
+  torn: boolean;
+  settled: boolean;
+  transitioned: boolean;
+  /** Offset from the banana's resting pose: height and extra rotation about X. */
+  banana: { y: number; vy: number; angle: number; spin: number };
+  /**
+   * Torn tape. Position is in scene space (see placeTape); rotation is the
+   * offset from its orientation at the moment it tore.
+   */
+  tape: { position: Vec3; velocity: Vec3; rotation: Vec3; angularVelocity: Vec3; resting: boolean };
+}
+
+/** The subset of state a renderer needs, blended between two physics steps. */
+export interface PeelRenderState {
+  progress: number;
+  banana: { y: number; angle: number };
+  tape: { position: Vec3; rotation: Vec3 };
+}
+
+export interface PeelEvents {
+  peelStart: { axis: string; sign: number };
+  fall: { progress: number };
+  tear: { velocity: Vec3 };
+  land: { speed: number; bounce: number };
+  settle: Record<string, never>;
+  transition: Record<string, never>;
+}
+
+type Listener<K extends keyof PeelEvents> = (payload: PeelEvents[K]) => void;
+
+const vec = (): Vec3 => ({ x: 0, y: 0, z: 0 });
+
+const lerpVec = (a: Vec3, b: Vec3, t: number): Vec3 => ({
+  x: lerp(a.x, b.x, t),
+  y: lerp(a.y, b.y, t),
+  z: lerp(a.z, b.z, t),
+});
+
+function snapshot(s: PeelState): PeelRenderState {
+  return {
+    progress: s.progress,
+    banana: { y: s.banana.y, angle: s.banana.angle },
+    tape: { position: { ...s.tape.position }, rotation: { ...s.tape.rotation } },
+  };
+}
+
+function lerp(a: number, b: number, t: number) {
+  return a + (b - a) * t;
+}
+
+/**
+ * Progress at which enough tape has come off for the banana to drop: just
+ * past the far edge of the banana, measured along the peel axis from the
+ * edge being pulled. Inputs are extents along that axis in tape space.
+ */
+export function fallThresholdFor(
+  sign: number,
+  tapeMin: number,
+  tapeMax: number,
+  bananaMin: number,
+  bananaMax: number
+): number {
+  const span = tapeMax - tapeMin;
+  const raw = sign === 1 ? (bananaMax - tapeMin) / span : (tapeMax - bananaMin) / span;
+  return Math.min(Math.max(raw + 0.05, 0.3), 0.95);
+}
+
+export class PeelSimulation {
+  readonly options: PeelSimulationOptions;
+  private readonly listeners = new Map<keyof PeelEvents, Set<Listener<never>>>();
+  private dragDir = { x: 0, y: 1 };
+  private bounces = 0;
+  private accumulator = 0;
+  private previous: PeelRenderState;
+  private stepCount = 0;
+  state: PeelState;
+
+  constructor(options: Partial<PeelSimulationOptions> = {}) {
+    this.options = { ...DEFAULT_PEEL_OPTIONS, ...options };
+    this.state = PeelSimulation.initialState();
+    this.previous = snapshot(this.state);
+  }
+
+  static initialState(): PeelState {
+    return {
+      configured: false,
+      axis: null,
+      sign: 0,
+      fallThreshold: 1,
+      targetProgress: 0,
+      progress: 0,
+      falling: false,
+      torn: false,
+      settled: false,
+      transitioned: false,
+      banana: { y: 0, vy: 0, angle: 0, spin: 0 },
+      tape: { position: vec(), velocity: vec(), rotation: vec(), angularVelocity: vec(), resting: false },
+    };
+  }
+
+  on<K extends keyof PeelEvents>(event: K, listener: Listener<K>): () => void {
+    let set = this.listeners.get(event);
+    if (!set) this.listeners.set(event, (set = new Set()));
+    set.add(listener);
+    return () => { set.delete(listener); };
+  }
+
+  private emit<K extends keyof PeelEvents>(event: K, payload: PeelEvents[K]) {
+    this.listeners.get(event)?.forEach((l) => (l as Listener<K>)(payload));
+  }
+
+  /** Fixed steps run so far; recordings use it as their clock. */
+  get steps(): number {
+    return this.stepCount;
+  }
+
+  /** Whether a new grab should carry on the current peel rather than pick a direction again. */
+  get canResume(): boolean {
+    return this.state.configured && this.state.progress > 0.05;
+  }
+
+  /**
+   * Sets the edge being peeled. Picking a different edge than last time
+   * starts over from zero. Returns true when the direction changed.
+   */
+  setDirection(axis: string, sign: number, fallThreshold: number): boolean {
+    const s = this.state;
+    if (s.torn) return false;
+    const changed = axis !== s.axis || sign !== s.sign;
+    if (changed) {
+      s.targetProgress = 0;
+      s.progress = 0;
+      s.axis = axis;
+      s.sign = sign;
+      s.fallThreshold = fallThreshold;
+    }
+    s.configured = true;
+    if (changed) this.emit('peelStart', { axis, sign });
+    return changed;
+  }
+
+  /**
+   * Feeds one pointer move. `dx`/`dy` are the move as a fraction of the
+   * viewport (dy positive = up). Returns the normalised distance, which
+   * callers use to drive the peel sound.
+   */
+  drag(dx: number, dy: number): number {
+    const s = this.state;
+    if (!s.configured || s.torn) return 0;
+    const dist = Math.sqrt(dx * dx + dy * dy);
+    if (dist > 0.001) this.dragDir = { x: dx / dist, y: dy / dist };
+    this.pull(dist * this.options.sensitivity);
+    return dist;
+  }
+
+  /**
+   * Moves the peel target by `amount` of progress directly, for input that
+   * has no screen-space drag (keyboard). Negative amounts press tape back down.
+   */
+  pull(amount: number) {
+    const s = this.state;
+    if (!s.configured || s.torn) return;
+    s.targetProgress = Math.max(0, Math.min(this.options.maxProgress, s.targetProgress + amount));
+  }
+
+  setSensitivity(sensitivity: number) {
+    this.options.sensitivity = sensitivity;
+  }
+
+  /**
+   * Moves the torn tape to where the renderer actually has it, so it collides
+   * with the floor and wall in scene space. Call from a `tear` listener.
+   */
+  placeTape(position: Vec3) {
+    this.state.tape.position = { ...position };
+    this.previous.tape.position = { ...position };
+  }
+
+  /**
+   * Feeds real elapsed time and runs as many fixed steps as it covers.
+   * Returns how far (0..1) the clock is between the last two steps, for
+   * interpolate(). `beforeStep` runs ahead of each step, so a replay can
+   * apply input on exactly the step it was recorded on.
+   */
+  advance(frameDt: number, beforeStep?: () => void): number {
+    const { fixedDt, maxSubSteps } = this.options;
+    this.accumulator += Math.max(frameDt, 0);
+    let steps = 0;
+    while (this.accumulator >= fixedDt && steps < maxSubSteps) {
+      beforeStep?.();
+      this.step();
+      this.accumulator -= fixedDt;
+      steps++;
+    }
+    // A long stall (background tab, debugger) shouldn't replay as a burst of steps
+    if (steps === maxSubSteps) this.accumulator = Math.min(this.accumulator, fixedDt);
+    return this.accumulator / fixedDt;
+  }
+
+  interpolate(alpha: number): PeelRenderState {
+    const prev = this.previous;
+    const cur = this.state;
+    return {
+      progress: lerp(prev.progress, cur.progress, alpha),
+      banana: {
+        y: lerp(prev.banana.y, cur.banana.y, alpha),
+        angle: lerp(prev.banana.angle, cur.banana.angle, alpha),
+      },
+      tape: {
+        position: lerpVec(prev.tape.position, cur.tape.position, alpha),
+        rotation: lerpVec(prev.tape.rotation, cur.tape.rotation, alpha),
+      },
+    };
+  }
+
+  /** One fixed physics step. */
+  step() {
+    const o = this.options;
+    const s = this.state;
+    const dt = o.fixedDt;
+    const damping = Math.exp(-o.angularDamping * dt);
+    this.previous = snapshot(s);
+
+    if (!s.torn && s.configured) {
+      if (!s.falling) {
+        s.progress = lerp(s.progress, s.targetProgress, o.peelEase);
+        if (s.progress >= s.fallThreshold) this.startFall();
+      } else {
+        s.progress = lerp(s.progress, o.maxProgress, o.fallEase);
+        if (s.progress >= o.tearAt) this.tear();
+      }
+    }
+
+    if (s.torn && !s.tape.resting) {
+      const t = s.tape;
+      t.velocity.y -= o.gravity * dt;
+      t.position.x += t.velocity.x * dt;
+      t.position.y += t.velocity.y * dt;
+      t.position.z += t.velocity.z * dt;
+      t.angularVelocity.x *= damping;
+      t.angularVelocity.y *= damping;
+      t.angularVelocity.z *= damping;
+      t.rotation.x += t.angularVelocity.x * dt;
+      t.rotation.y += t.angularVelocity.y * dt;
+      t.rotation.z += t.angularVelocity.z * dt;
+
+      const hitFloor = this.collide(t.position, t.velocity, 'y', o.floorY, ['x', 'z']);
+      const hitWall = this.collide(t.position, t.velocity, 'z', o.wallZ, ['x', 'y']);
+      if (hitFloor || hitWall) {
+        t.angularVelocity.x *= o.friction;
+        t.angularVelocity.y *= o.friction;
+        t.angularVelocity.z *= o.friction;
+      }
+      if (hitFloor && Math.abs(t.velocity.y) < o.settleSpeed) {
+        t.velocity = vec();
+        t.angularVelocity = vec();
+        t.resting = true;
+      }
+    }
+
+    if (s.falling && !s.settled) {
+      const b = s.banana;
+      b.vy -= o.gravity * dt;
+      b.y += b.vy * dt;
+      b.spin *= damping;
+      b.angle += b.spin * dt;
+
+      if (!s.transitioned && b.y < o.transitionY) {
+        s.transitioned = true;
+        this.emit('transition', {});
+      }
+
+      if (b.y < o.floorY) {
+        const speed = Math.abs(b.vy);
+        // Reflect the overshoot instead of snapping to the floor, so the
+        // bounce height doesn't depend on where in the step contact happened
+        b.y = o.floorY + (o.floorY - b.y) * o.restitution;
+        b.vy *= -o.restitution;
+        b.spin *= o.spinRestitution;
+        this.emit('land', { speed, bounce: this.bounces++ });
+
+        if (Math.abs(b.vy) < o.settleSpeed) {
+          b.y = o.floorY;
+          b.vy = 0;
+          b.spin = 0;
+          s.settled = true;
+          this.emit('settle', {});
+        }
+      }
+    }
+
+    this.stepCount++;
+  }
+
+  /** Bounces a point off the plane `axis = at`, approached from the positive side. */
+  private collide(p: Vec3, v: Vec3, axis: keyof Vec3, at: number, tangents: (keyof Vec3)[]): boolean {
+    if (p[axis] >= at || v[axis] >= 0) return false;
+    const o = this.options;
+    p[axis] = at + (at - p[axis]) * o.restitution;
+    v[axis] *= -o.restitution;
+    for (const t of tangents) v[t] *= o.friction;
+    return true;
+  }
+
+  private startFall() {
+    const s = this.state;
+    if (s.falling) return;
+    s.falling = true;
+    s.banana.spin = this.options.fallSpin;
+    this.emit('fall', { progress: s.progress });
+  }
+
+  private tear() {
+    const s = this.state;
+    const r = this.options.random;
+    this.startFall();
+    s.torn = true;
+    s.tape.velocity = { x: this.dragDir.x * 2, y: 0, z: r() * 1 };
+    s.tape.angularVelocity = { x: (r() - 0.5) * 6, y: (r() - 0.5) * 6, z: (r() - 0.5) * 6 };
+    this.emit('tear', { velocity: { ...s.tape.velocity } });
+  }
+}
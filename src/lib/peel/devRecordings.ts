@@ -0,0 +1,50 @@
+import { RecordingFormatError, parseRecording, serializeRecording, type PeelRecording } from './recording';
+
+/*
+ * Development-only: keeps the last few peel sessions in localStorage so
+ * `/?replay=last` (or `?replay=2`, counting back from the newest) can play
+ * one back. Nothing here runs in production builds.
+ */
+
+const STORAGE_KEY = 'bv.peelRecordings';
+const KEEP = 10;
+
+export const DEV_RECORDINGS = process.env.NODE_ENV === 'development';
+
+function readAll(): string[] {
+  try {
+    const raw = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(raw) ? raw.filter((r): r is string => typeof r === 'string') : [];
+  } catch (_) {
+    return [];
+  }
+}
+
+export function saveDevRecording(recording: PeelRecording) {
+  if (!DEV_RECORDINGS) return;
+  const text = serializeRecording(recording);
+  const all = [text, ...readAll()].slice(0, KEEP);
+  try { localStorage.setItem(STORAGE_KEY, JSON.stringify(all)); } catch (_) { /* not persisted */ }
+  console.debug(`Peel recording (${recording.outcome}, ${recording.samples.length} samples, ${text.length} bytes). Replay with ?replay=last`);
+}
+
+/** The recording `?replay=` asks for, or undefined. */
+export function devReplayFromLocation(): PeelRecording | undefined {
+  if (!DEV_RECORDINGS || typeof window === 'undefined') return undefined;
+  const which = new URLSearchParams(window.location.search).get('replay');
+  if (which === null) return undefined;
+
+  const index = which === 'last' || which === '' ? 0 : Number(which);
+  const text = Number.isInteger(index) ? readAll()[index] : undefined;
+  if (!text) {
+    console.warn(`No stored peel recording "${which}"`);
+    return undefined;
+  }
+  try {
+    return parseRecording(text);
+  } catch (err) {
+    if (!(err instanceof RecordingFormatError)) throw err;
+    console.warn(`Stored peel recording "${which}" is unreadable: ${err.message}`);
+    return undefined;
+  }
+}
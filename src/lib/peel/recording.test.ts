@@ -0,0 +1,132 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { PeelSimulation } from './PeelSimulation';
+import {
+  PeelRecorder,
+  PeelReplayer,
+  RECORDING_VERSION,
+  RecordingFormatError,
+  parseRecording,
+  seededRandom,
+  serializeRecording,
+  type PeelRecording,
+} from './recording';
+
+const SEED = 1234;
+// Uneven frames, as a real browser delivers them
+const FRAMES = [1 / 60, 1 / 45, 1 / 144, 1 / 30, 1 / 90];
+
+/**
+ * A live session through a recorder: grab, pick an edge, drag with a
+ * sensitivity change halfway, finish with the keyboard and let the torn tape
+ * land. Returns the recording and the simulation at the end.
+ */
+function recordSession() {
+  const sim = new PeelSimulation({ random: seededRandom(SEED) });
+  let recording: PeelRecording | null = null;
+  const recorder = new PeelRecorder(sim, SEED, (r) => { recording = r; });
+  // Where the renderer has the tape when it tears; deliberately unquantized
+  sim.on('tear', () => recorder.placeTape({ x: 0.123456, y: 1.234567, z: 0.345678 }));
+
+  let frame = 0;
+  const run = (count: number, input?: (i: number) => void) => {
+    for (let i = 0; i < count; i++, frame++) {
+      input?.(i);
+      recorder.advance(FRAMES[frame % FRAMES.length]);
+    }
+  };
+
+  run(10);
+  const firstStep = sim.steps;
+  recorder.grab(0.41234, 0.55555);
+  recorder.setDirection('x', -1, 0.61234);
+  run(30, () => recorder.drag(0.0031234, -0.0012345));
+  recorder.setSensitivity(1.7);
+  run(30, (i) => recorder.drag(i % 2 ? 0.0042 : 0.0013, 0.00071));
+  recorder.release();
+  run(40, () => recorder.pull(0.0123456));
+  run(600);
+
+  expect(sim.state.torn).toBe(true);
+  expect(recording).not.toBeNull();
+  return { recording: recording!, sim, firstStep };
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('recording round trip', () => {
+  it('serializes and parses back to the same recording', () => {
+    const { recording } = recordSession();
+    expect(recording.v).toBe(RECORDING_VERSION);
+    expect(recording.outcome).toBe('torn');
+    expect(recording.samples.map((s) => s[1])).toEqual(expect.arrayContaining(['g', 'a', 'm', 's', 'r', 'k', 't', 'p']));
+    expect(parseRecording(serializeRecording(recording))).toEqual(recording);
+  });
+
+  it('replays to the same final state, one step per frame', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => { });
+    const { recording, sim: live, firstStep } = recordSession();
+
+    const sim = new PeelSimulation({ random: seededRandom(recording.seed) });
+    const replayer = new PeelReplayer(sim, parseRecording(serializeRecording(recording)));
+    // The live spot is ignored in favour of the recorded one
+    sim.on('tear', () => replayer.placeTape({ x: 9, y: 9, z: 9 }));
+    replayer.start();
+    while (sim.steps < live.steps - firstStep) replayer.advance(sim.options.fixedDt);
+
+    expect(replayer.done).toBe(true);
+    expect(warn).not.toHaveBeenCalled();
+    expect(sim.state).toEqual(live.state);
+  });
+});
+
+describe('parseRecording', () => {
+  const valid = (): PeelRecording => ({
+    v: RECORDING_VERSION,
+    seed: 1,
+    at: 0,
+    viewport: [390, 844],
+    sensitivity: 1,
+    steps: 10,
+    outcome: 'abandoned',
+    samples: [[0, 'g', 0.5, 0.5], [1, 'a', 'y', 1, 0.6], [2, 'm', 0.01, 0.02], [3, 'r']],
+  });
+  const withSample = (sample: unknown) => JSON.stringify({ ...valid(), samples: [...valid().samples, sample] });
+
+  function failure(text: string): string {
+    try {
+      parseRecording(text);
+    } catch (err) {
+      expect(err).toBeInstanceOf(RecordingFormatError);
+      return (err as Error).message;
+    }
+    throw new Error('expected the recording to be rejected');
+  }
+
+  it('rejects what isn’t a recording', () => {
+    expect(failure('{')).toBe('Recording is not valid JSON');
+    expect(failure('null')).toBe('Recording must be an object');
+    expect(failure(JSON.stringify({ ...valid(), v: 99 }))).toBe('Unsupported recording version 99');
+    expect(failure(JSON.stringify({ ...valid(), seed: '1' }))).toMatch(/missing seed/);
+    expect(failure(JSON.stringify({ ...valid(), sensitivity: null }))).toMatch(/missing seed/);
+  });
+
+  it('checks the type of every value in a sample', () => {
+    expect(failure(withSample([0, 'm', 0.1, null]))).toBe('Sample 4 is malformed');
+    expect(failure(withSample([0, 'm', '0.1', 0.2]))).toBe('Sample 4 is malformed');
+    expect(failure(withSample([0, 'a', 1, 1, 0.6]))).toBe('Sample 4 is malformed');
+    expect(failure(withSample([0, 'a', 'x', 'up', 0.6]))).toBe('Sample 4 is malformed');
+    expect(failure(withSample([0, 't', 0, 0]))).toBe('Sample 4 is malformed');
+    expect(failure(withSample([0, 'r', 1]))).toBe('Sample 4 is malformed');
+  });
+
+  it('checks the step delta and the kind', () => {
+    expect(failure(withSample([-1, 'r']))).toBe('Sample 4 is malformed');
+    expect(failure(withSample([0.5, 'r']))).toBe('Sample 4 is malformed');
+    expect(failure(withSample(['0', 'r']))).toBe('Sample 4 is malformed');
+    expect(failure(withSample([0, 'x']))).toBe('Sample 4 is malformed');
+    expect(failure(withSample([0, 'constructor']))).toBe('Sample 4 is malformed');
+    expect(failure(withSample({ 0: 0, 1: 'r' }))).toBe('Sample 4 is malformed');
+  });
+});
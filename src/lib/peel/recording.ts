@@ -0,0 +1,329 @@
+import type { PeelSimulation, Vec3 } from './PeelSimulation';
+
+/*
+ * Peel session recording. Everything that moves the simulation goes through
+ * a PeelInput: live, a PeelRecorder forwards it to the simulation and logs it
+ * against the simulation's step clock; in a replay, a PeelReplayer ignores the
+ * user and applies the log on the same steps instead. With the same seed
+ * that reproduces the session exactly, whatever the frame rate.
+ *
+ * Values are quantized before the simulation sees them, so what's stored is
+ * what was simulated and the compact JSON form replays bit-for-bit.
+ */
+
+export const RECORDING_VERSION = 1;
+
+/**
+ * One entry: steps since the previous entry, a kind, then its values.
+ *   g  grab          pointer down on the tape, position as a fraction of the viewport
+ *   r  release       pointer up
+ *   a  direction     peel axis, sign and fall threshold
+ *   m  drag          move as a fraction of the viewport (dy positive = up)
+ *   k  pull          progress added directly (keyboard)
+ *   s  sensitivity
+ *   t  tear          where the torn tape starts, in scene space
+ *   p  progress      sampled a few times a second, checked on replay
+ */
+export type PeelSample =
+  | [dt: number, kind: 'g', x: number, y: number]
+  | [dt: number, kind: 'r']
+  | [dt: number, kind: 'a', axis: string, sign: number, fallThreshold: number]
+  | [dt: number, kind: 'm', dx: number, dy: number]
+  | [dt: number, kind: 'k', amount: number]
+  | [dt: number, kind: 's', sensitivity: number]
+  | [dt: number, kind: 't', x: number, y: number, z: number]
+  | [dt: number, kind: 'p', progress: number];
+
+export type PeelOutcome = 'torn' | 'abandoned';
+
+export interface PeelRecording {
+  v: number;
+  /** Seed for the simulation's random source (the tear tumble). */
+  seed: number;
+  /** Wall-clock start, ms since the epoch. */
+  at: number;
+  /** Viewport size in CSS px when the session started. */
+  viewport: [number, number];
+  /** Drag sensitivity at the start; later changes are 's' samples. */
+  sensitivity: number;
+  /** Fixed steps from the first sample to the end of the session. */
+  steps: number;
+  outcome: PeelOutcome;
+  samples: PeelSample[];
+}
+
+export class RecordingFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RecordingFormatError';
+  }
+}
+
+/** What SceneCanvas drives the simulation through. */
+export interface PeelInput {
+  grab(x: number, y: number): void;
+  release(): void;
+  setDirection(axis: string, sign: number, fallThreshold: number): boolean;
+  drag(dx: number, dy: number): number;
+  pull(amount: number): void;
+  setSensitivity(sensitivity: number): void;
+  placeTape(position: Vec3): void;
+  advance(frameDt: number): number;
+}
+
+// Progress is sampled every this many steps (10 Hz at the default step)
+const PROGRESS_EVERY = 6;
+
+function quantize(v: number, digits: number) {
+  const f = 10 ** digits;
+  return Math.round(v * f) / f;
+}
+
+/** A random 32-bit seed for a new session. */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 2 ** 32);
+}
+
+/** Small deterministic PRNG (mulberry32) for the simulation's `random` option. */
+export function seededRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/* ─── Recording ─── */
+
+export class PeelRecorder implements PeelInput {
+  private readonly samples: PeelSample[] = [];
+  private readonly at = Date.now();
+  private readonly viewport: [number, number];
+  private readonly startSensitivity: number;
+  private sensitivity: number;
+  private firstStep: number | null = null;
+  private lastStep = 0;
+  private lastProgressStep = -Infinity;
+  private finished = false;
+
+  constructor(
+    private readonly sim: PeelSimulation,
+    private readonly seed: number,
+    private readonly onFinish?: (recording: PeelRecording) => void
+  ) {
+    this.viewport = typeof window === 'undefined' ? [0, 0] : [window.innerWidth, window.innerHeight];
+    this.sensitivity = sim.options.sensitivity;
+    this.startSensitivity = this.sensitivity;
+  }
+
+  private push(sample: PeelSample) {
+    if (this.finished) return;
+    const step = this.sim.steps;
+    if (this.firstStep === null) this.firstStep = this.lastStep = step;
+    sample[0] = step - this.lastStep;
+    this.lastStep = step;
+    this.samples.push(sample);
+  }
+
+  grab(x: number, y: number) {
+    this.push([0, 'g', quantize(x, 3), quantize(y, 3)]);
+  }
+
+  release() {
+    this.push([0, 'r']);
+  }
+
+  setDirection(axis: string, sign: number, fallThreshold: number): boolean {
+    const threshold = quantize(fallThreshold, 4);
+    const changed = this.sim.setDirection(axis, sign, threshold);
+    if (changed) this.push([0, 'a', axis, sign, threshold]);
+    return changed;
+  }
+
+  drag(dx: number, dy: number): number {
+    const qx = quantize(dx, 5);
+    const qy = quantize(dy, 5);
+    if (qx === 0 && qy === 0) return 0;
+    this.push([0, 'm', qx, qy]);
+    return this.sim.drag(qx, qy);
+  }
+
+  pull(amount: number) {
+    const q = quantize(amount, 4);
+    if (q === 0) return;
+    this.push([0, 'k', q]);
+    this.sim.pull(q);
+  }
+
+  setSensitivity(sensitivity: number) {
+    if (sensitivity === this.sensitivity) return;
+    this.sensitivity = sensitivity;
+    this.push([0, 's', sensitivity]);
+    this.sim.setSensitivity(sensitivity);
+  }
+
+  placeTape(position: Vec3) {
+    const p = { x: quantize(position.x, 4), y: quantize(position.y, 4), z: quantize(position.z, 4) };
+    this.push([0, 't', p.x, p.y, p.z]);
+    this.sim.placeTape(p);
+    this.finish('torn');
+  }
+
+  advance(frameDt: number): number {
+    const alpha = this.sim.advance(frameDt);
+    const { state, steps } = this.sim;
+    if (this.firstStep !== null && state.configured && !state.torn && steps - this.lastProgressStep >= PROGRESS_EVERY) {
+      this.lastProgressStep = steps;
+      this.push([0, 'p', quantize(state.progress, 3)]);
+    }
+    return alpha;
+  }
+
+  /**
+   * Ends the session and hands the recording to `onFinish`. Called on tear;
+   * call it on teardown too, so people who gave up are counted. Sessions
+   * that never touched the tape aren't reported.
+   */
+  finish(outcome: PeelOutcome = 'abandoned') {
+    if (this.finished || this.firstStep === null) return;
+    this.finished = true;
+    this.onFinish?.({
+      v: RECORDING_VERSION,
+      seed: this.seed,
+      at: this.at,
+      viewport: this.viewport,
+      sensitivity: this.startSensitivity,
+      steps: this.sim.steps - this.firstStep,
+      outcome,
+      samples: this.samples,
+    });
+  }
+}
+
+/* ─── Replay ─── */
+
+export class PeelReplayer implements PeelInput {
+  private index = 0;
+  private startStep: number | null = null;
+  // Step (since start) the next sample is due on
+  private due = 0;
+
+  constructor(
+    private readonly sim: PeelSimulation,
+    private readonly recording: PeelRecording
+  ) {
+    sim.setSensitivity(recording.sensitivity);
+    this.due = recording.samples[0]?.[0] ?? 0;
+  }
+
+  /** Whether every sample has been applied. */
+  get done(): boolean {
+    return this.index >= this.recording.samples.length;
+  }
+
+  /** Starts the replay clock. Call once the scene can show the peel. */
+  start() {
+    if (this.startStep === null) this.startStep = this.sim.steps;
+  }
+
+  // Live input is ignored while replaying
+  grab() { }
+  release() { }
+  setDirection() { return false; }
+  drag() { return 0; }
+  pull() { }
+  setSensitivity() { }
+
+  /** The tear happens inside a step; use the recorded spot, not the live one. */
+  placeTape(live: Vec3) {
+    const sample = this.recording.samples[this.index];
+    if (sample?.[1] === 't') {
+      this.sim.placeTape({ x: sample[2], y: sample[3], z: sample[4] });
+      this.next();
+    } else {
+      this.sim.placeTape(live);
+    }
+  }
+
+  advance(frameDt: number): number {
+    const alpha = this.sim.advance(frameDt, () => this.applyDue());
+    // Samples due after the last step of this frame (a release, say)
+    this.applyDue();
+    return alpha;
+  }
+
+  private next() {
+    this.index++;
+    const sample = this.recording.samples[this.index];
+    if (sample) this.due += sample[0];
+  }
+
+  private applyDue() {
+    if (this.startStep === null) return;
+    const elapsed = this.sim.steps - this.startStep;
+    const { sim } = this;
+
+    while (!this.done && this.due <= elapsed) {
+      const sample = this.recording.samples[this.index];
+      // The tear sample waits for the tear itself (placeTape)
+      if (sample[1] === 't') return;
+
+      switch (sample[1]) {
+        case 'a': sim.setDirection(sample[2], sample[3], sample[4]); break;
+        case 'm': sim.drag(sample[2], sample[3]); break;
+        case 'k': sim.pull(sample[2]); break;
+        case 's': sim.setSensitivity(sample[2]); break;
+        case 'p':
+          if (Math.abs(sim.state.progress - sample[2]) > 1e-3) {
+            console.warn(`Replay diverged at step ${elapsed}: progress ${sim.state.progress.toFixed(3)}, recorded ${sample[2]}`);
+          }
+          break;
+      }
+      this.next();
+    }
+  }
+}
+
+/* ─── Serialization ─── */
+
+export function serializeRecording(recording: PeelRecording): string {
+  return JSON.stringify(recording);
+}
+
+// Value types after the kind, per kind: n a finite number, s a string
+const SAMPLE_VALUES: Record<PeelSample[1], string> = { g: 'nn', r: '', a: 'snn', m: 'nn', k: 'n', s: 'n', t: 'nnn', p: 'n' };
+
+function isFiniteNumber(v: unknown): v is number {
+  return typeof v === 'number' && Number.isFinite(v);
+}
+
+function isSample(sample: unknown): sample is PeelSample {
+  if (!Array.isArray(sample) || !Number.isInteger(sample[0]) || sample[0] < 0) return false;
+  const kind = sample[1];
+  if (typeof kind !== 'string' || !Object.prototype.hasOwnProperty.call(SAMPLE_VALUES, kind)) return false;
+  const types = SAMPLE_VALUES[kind as PeelSample[1]];
+  if (sample.length !== types.length + 2) return false;
+  return types.split('').every((t, i) => (t === 's' ? typeof sample[i + 2] === 'string' : isFiniteNumber(sample[i + 2])));
+}
+
+export function parseRecording(text: string): PeelRecording {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (_) {
+    throw new RecordingFormatError('Recording is not valid JSON');
+  }
+  const r = raw as Partial<PeelRecording> | null;
+  if (!r || typeof r !== 'object') throw new RecordingFormatError('Recording must be an object');
+  if (r.v !== RECORDING_VERSION) throw new RecordingFormatError(`Unsupported recording version ${String(r.v)}`);
+  if (!isFiniteNumber(r.seed) || !isFiniteNumber(r.sensitivity) || !Array.isArray(r.samples)) {
+    throw new RecordingFormatError('Recording is missing seed, sensitivity or samples');
+  }
+  r.samples.forEach((sample: unknown, i) => {
+    if (!isSample(sample)) throw new RecordingFormatError(`Sample ${i} is malformed`);
+  });
+  return r as PeelRecording;
+}
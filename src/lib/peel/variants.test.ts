@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import {
+  BANANA_VARIANTS,
+  DEFAULT_BANANA_VARIANT,
+  DEFAULT_TAPE_VARIANT,
+  TAPE_VARIANTS,
+  isVariantChoice,
+  randomBananaVariant,
+  randomTapeVariant,
+  resolveBananaVariant,
+  resolveTapeVariant,
+} from './variants';
+
+const tape = (id: string) => TAPE_VARIANTS.find((v) => v.id === id)!;
+const banana = (id: string) => BANANA_VARIANTS.find((v) => v.id === id)!;
+/** random() that always lands on index `i` of a list of `n`. */
+const fixed = (i: number, n: number) => () => (i + 0.5) / n;
+
+describe('resolveTapeVariant / resolveBananaVariant', () => {
+  it('lets the query param beat the drop config', () => {
+    expect(resolveTapeVariant(['gaffer-black', 'caution-yellow'])).toBe(tape('gaffer-black'));
+    expect(resolveBananaVariant(['overripe', 'unripe'])).toBe(banana('overripe'));
+  });
+
+  it('uses the drop config when there is no query param', () => {
+    expect(resolveTapeVariant([null, 'caution-yellow'])).toBe(tape('caution-yellow'));
+    expect(resolveBananaVariant([undefined, 'spotted'])).toBe(banana('spotted'));
+    expect(resolveBananaVariant(['', 'spotted'])).toBe(banana('spotted'));
+  });
+
+  it('falls through unknown ids to the next choice, then the default', () => {
+    expect(resolveTapeVariant(['tartan', 'logo-print'])).toBe(tape('logo-print'));
+    expect(resolveTapeVariant(['tartan', 'plaid'])).toBe(DEFAULT_TAPE_VARIANT);
+    expect(resolveBananaVariant(['green'])).toBe(DEFAULT_BANANA_VARIANT);
+    expect(resolveBananaVariant([])).toBe(DEFAULT_BANANA_VARIANT);
+    // Ids are per list: a banana id isn't a tape
+    expect(resolveTapeVariant(['ripe'])).toBe(DEFAULT_TAPE_VARIANT);
+  });
+
+  it('picks with the given random for "random", from either source', () => {
+    expect(resolveTapeVariant(['random', 'gaffer-black'], fixed(2, TAPE_VARIANTS.length))).toBe(TAPE_VARIANTS[2]);
+    expect(resolveBananaVariant([null, 'random'], fixed(3, BANANA_VARIANTS.length))).toBe(BANANA_VARIANTS[3]);
+    // "random" may land on the current default; nothing is excluded
+    expect(resolveTapeVariant(['random'], fixed(0, TAPE_VARIANTS.length))).toBe(DEFAULT_TAPE_VARIANT);
+  });
+});
+
+describe('randomTapeVariant / randomBananaVariant', () => {
+  it('never repeats the excluded variant', () => {
+    for (let i = 0; i < TAPE_VARIANTS.length - 1; i++) {
+      expect(randomTapeVariant('duct-silver', fixed(i, TAPE_VARIANTS.length - 1)).id).not.toBe('duct-silver');
+    }
+    for (let i = 0; i < BANANA_VARIANTS.length - 1; i++) {
+      expect(randomBananaVariant('ripe', fixed(i, BANANA_VARIANTS.length - 1)).id).not.toBe('ripe');
+    }
+  });
+
+  it('can land on every other variant', () => {
+    const seen = new Set(
+      Array.from({ length: TAPE_VARIANTS.length - 1 }, (_, i) => randomTapeVariant('gaffer-black', fixed(i, TAPE_VARIANTS.length - 1)).id)
+    );
+    expect([...seen].sort()).toEqual(TAPE_VARIANTS.map((v) => v.id).filter((id) => id !== 'gaffer-black').sort());
+  });
+
+  it('picks from the whole list without an exclusion', () => {
+    expect(randomBananaVariant(undefined, fixed(0, BANANA_VARIANTS.length))).toBe(BANANA_VARIANTS[0]);
+    expect(randomBananaVariant('not-a-variant', () => 0.999)).toBe(BANANA_VARIANTS[BANANA_VARIANTS.length - 1]);
+  });
+});
+
+describe('isVariantChoice', () => {
+  it('accepts ids from its own list and "random"', () => {
+    expect(isVariantChoice(TAPE_VARIANTS, 'logo-print')).toBe(true);
+    expect(isVariantChoice(TAPE_VARIANTS, 'random')).toBe(true);
+    expect(isVariantChoice(TAPE_VARIANTS, 'ripe')).toBe(false);
+    expect(isVariantChoice(BANANA_VARIANTS, '')).toBe(false);
+  });
+});
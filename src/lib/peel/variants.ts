@@ -0,0 +1,107 @@
+/* ─── Tape and banana looks for the intro scene ─── */
+
+export interface TapePrint {
+  /** Image under public/. Its width runs down the length of the tape, its height across. */
+  src: string;
+  /** Image width / height, so the print keeps its proportions however long the tape is. */
+  aspect: number;
+}
+
+export interface TapeVariant {
+  id: string;
+  name: string;
+  /** Multiplies the tape's texture (or the print). */
+  color: number;
+  roughness: number;
+  metalness: number;
+  /** Replaces the tape's own texture with a repeating print. */
+  print?: TapePrint;
+}
+
+export interface BananaVariant {
+  id: string;
+  name: string;
+  /** Multiplies the banana's texture: greener when unripe, browner when overripe. */
+  color: number;
+  /** Overrides the model's roughness; unripe peel is waxier. */
+  roughness?: number;
+  /** Brown sugar spots painted onto a copy of the texture; 0 keeps the texture as is. */
+  spots: number;
+}
+
+export const TAPE_VARIANTS: readonly TapeVariant[] = [
+  // Brighter than the texture alone, closer to real silver duct tape, with a slight sheen
+  { id: 'duct-silver', name: 'Duct silver', color: 0xb5b7b9, roughness: 0.45, metalness: 0.1 },
+  // Cloth gaffer tape is matte
+  { id: 'gaffer-black', name: 'Gaffer black', color: 0x2a2a2c, roughness: 0.85, metalness: 0 },
+  { id: 'caution-yellow', name: 'Caution yellow', color: 0xf2c318, roughness: 0.5, metalness: 0 },
+  {
+    id: 'logo-print',
+    name: 'Logo print',
+    color: 0xffffff,
+    roughness: 0.55,
+    metalness: 0,
+    print: { src: '/textures/tape-logo.svg', aspect: 4 },
+  },
+];
+
+export const BANANA_VARIANTS: readonly BananaVariant[] = [
+  { id: 'unripe', name: 'Unripe', color: 0xc9e08c, roughness: 0.75, spots: 0 },
+  // The model as shipped
+  { id: 'ripe', name: 'Ripe', color: 0xffffff, spots: 0 },
+  { id: 'spotted', name: 'Spotted', color: 0xf7eed8, spots: 90 },
+  { id: 'overripe', name: 'Overripe', color: 0xb59a6e, spots: 260 },
+];
+
+export const DEFAULT_TAPE_VARIANT = TAPE_VARIANTS[0];
+export const DEFAULT_BANANA_VARIANT = BANANA_VARIANTS[1];
+
+/** What DROP_TAPE_VARIANT / DROP_BANANA_VARIANT and `?tape=` / `?banana=` accept besides an id. */
+export const RANDOM_VARIANT = 'random';
+
+function pick<T extends { id: string }>(list: readonly T[], excludeId: string | undefined, random: () => number): T {
+  const pool = list.filter((v) => v.id !== excludeId);
+  const from = pool.length ? pool : list;
+  return from[Math.floor(random() * from.length)];
+}
+
+/** A random variant, other than `excludeId` when there's a choice, so "Peel again" looks different. */
+export function randomTapeVariant(excludeId?: string, random: () => number = Math.random): TapeVariant {
+  return pick(TAPE_VARIANTS, excludeId, random);
+}
+
+export function randomBananaVariant(excludeId?: string, random: () => number = Math.random): BananaVariant {
+  return pick(BANANA_VARIANTS, excludeId, random);
+}
+
+export function isVariantChoice(list: readonly { id: string }[], value: string): boolean {
+  return value === RANDOM_VARIANT || list.some((v) => v.id === value);
+}
+
+/**
+ * Resolves the first usable choice, in order (query param, then drop
+ * config): an id, or "random". Unknown or missing values fall through to
+ * the next; with none, `fallback` wins.
+ */
+function resolve<T extends { id: string }>(
+  list: readonly T[],
+  choices: (string | null | undefined)[],
+  fallback: T,
+  random: () => number
+): T {
+  for (const choice of choices) {
+    if (!choice) continue;
+    if (choice === RANDOM_VARIANT) return pick(list, undefined, random);
+    const found = list.find((v) => v.id === choice);
+    if (found) return found;
+  }
+  return fallback;
+}
+
+export function resolveTapeVariant(choices: (string | null | undefined)[], random: () => number = Math.random) {
+  return resolve(TAPE_VARIANTS, choices, DEFAULT_TAPE_VARIANT, random);
+}
+
+export function resolveBananaVariant(choices: (string | null | undefined)[], random: () => number = Math.random) {
+  return resolve(BANANA_VARIANTS, choices, DEFAULT_BANANA_VARIANT, random);
+}
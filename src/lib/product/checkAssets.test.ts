@@ -0,0 +1,44 @@
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { checkProductAssets } from './checkAssets';
+
+let root: string;
+
+async function setup(products: unknown[], files: string[]) {
+  await mkdir(path.join(root, 'src/content'), { recursive: true });
+  await writeFile(path.join(root, 'src/content/product.json'), JSON.stringify({ products }));
+  for (const file of files) {
+    await mkdir(path.dirname(path.join(root, 'public', file)), { recursive: true });
+    await writeFile(path.join(root, 'public', file), '');
+  }
+}
+
+beforeEach(async () => {
+  root = await mkdtemp(path.join(tmpdir(), 'product-assets-'));
+});
+
+afterEach(async () => {
+  await rm(root, { recursive: true, force: true });
+});
+
+describe('checkProductAssets', () => {
+  it('passes when every product’s files are shipped', async () => {
+    await setup(
+      [{ id: 'a', model: '/models/a.glb', poster: '/images/a.png' }, { id: 'b', model: '/models/b.glb' }],
+      ['models/a.glb', 'images/a.png', 'models/b.glb']
+    );
+    expect(() => checkProductAssets(root)).not.toThrow();
+  });
+
+  it('names every missing file, in any product', async () => {
+    await setup(
+      [{ id: 'a', model: '/models/a.glb', poster: '/images/a.png' }, { id: 'b', model: '/models/b.glb', poster: '/images/b.png' }],
+      ['models/a.glb', 'images/b.png']
+    );
+    expect(() => checkProductAssets(root)).toThrow(
+      'src/content/product.json references files missing from public/: products[0].poster (/images/a.png), products[1].model (/models/b.glb)'
+    );
+  });
+});
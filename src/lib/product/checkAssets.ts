@@ -0,0 +1,28 @@
+import { existsSync, readFileSync } from 'node:fs';
+import path from 'node:path';
+
+// Fields of a product that point at a file under public/
+const ASSET_FIELDS = ['model', 'poster'] as const;
+
+/**
+ * Build-time check, run from next.config.ts, that every file the hero
+ * products point at is actually shipped in public/, whichever product the
+ * drop picks. Kept free of app imports so the config loader can run it
+ * before anything is bundled.
+ */
+export function checkProductAssets(root = process.cwd()) {
+  const file = path.join(root, 'src/content/product.json');
+  const raw = JSON.parse(readFileSync(file, 'utf8')) as { products?: unknown };
+  const products = Array.isArray(raw.products) ? (raw.products as Record<string, unknown>[]) : [];
+
+  const missing = products.flatMap((product, i) =>
+    ASSET_FIELDS
+      .map((field) => ({ at: `products[${i}].${field}`, asset: product?.[field] }))
+      .filter((ref): ref is { at: string; asset: string } => typeof ref.asset === 'string')
+      .filter(({ asset }) => !existsSync(path.join(root, 'public', asset)))
+      .map(({ at, asset }) => `${at} (${asset})`)
+  );
+  if (missing.length) {
+    throw new Error(`src/content/product.json references files missing from public/: ${missing.join(', ')}`);
+  }
+}
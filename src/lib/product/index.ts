@@ -0,0 +1,17 @@
+import content from '@/content/product.json';
+import { parseProducts } from './schema';
+import type { HeroProduct } from './types';
+
+export * from './types';
+export { parseProducts, ProductValidationError } from './schema';
+
+/** Every hero product, validated once at import so a bad edit fails the build. */
+export const PRODUCTS: readonly HeroProduct[] = parseProducts(content);
+
+/** Shown when the drop doesn't pick one (DROP_PRODUCT): the first in the file. */
+export const DEFAULT_PRODUCT = PRODUCTS[0];
+
+/** The hero product for a drop's `product` id, or the default for an unknown one. */
+export function getProduct(id: string | null | undefined): HeroProduct {
+  return PRODUCTS.find((p) => p.id === id) ?? DEFAULT_PRODUCT;
+}
@@ -0,0 +1,106 @@
+import { LIGHTING_PRESETS, type LightingPreset } from '@/lib/graphics/lighting';
+import type { HeroProduct, ProductHotspot } from './types';
+
+export class ProductValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProductValidationError';
+  }
+}
+
+const ID_RE = /^[a-z0-9-]+$/;
+
+function fail(path: string, message: string): never {
+  throw new ProductValidationError(`${path}: ${message}`);
+}
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null && !Array.isArray(v);
+}
+
+function assetPath(v: unknown, path: string, extensions: string[]): string {
+  if (typeof v !== 'string' || !v.startsWith('/')) fail(path, 'must be a path under public/, starting with "/"');
+  if (!extensions.some((ext) => v.toLowerCase().endsWith(ext))) fail(path, `must end with ${extensions.join(' or ')}`);
+  return v;
+}
+
+function optionalNumber(v: unknown, path: string, min: number): number | undefined {
+  if (v === undefined) return undefined;
+  if (typeof v !== 'number' || !Number.isFinite(v) || v < min) fail(path, `must be a number >= ${min}`);
+  return v;
+}
+
+function vec3(v: unknown, path: string, what: string): [number, number, number] {
+  if (!Array.isArray(v) || v.length !== 3 || !v.every((n) => typeof n === 'number' && Number.isFinite(n))) {
+    fail(path, `must be [x, y, z] ${what}`);
+  }
+  return v as [number, number, number];
+}
+
+function parseHotspots(raw: unknown, at: string): ProductHotspot[] {
+  if (!Array.isArray(raw)) fail(at, 'must be an array');
+  const ids = new Set<string>();
+  return raw.map((h, i) => {
+    const path = `${at}[${i}]`;
+    if (!isObject(h)) fail(path, 'must be an object');
+    if (typeof h.id !== 'string' || !h.id) fail(`${path}.id`, 'must be a non-empty string');
+    if (ids.has(h.id)) fail(`${path}.id`, `duplicate id "${h.id}"`);
+    ids.add(h.id);
+    if (typeof h.title !== 'string' || !h.title.trim()) fail(`${path}.title`, 'must be a non-empty string');
+    if (h.body !== undefined && typeof h.body !== 'string') fail(`${path}.body`, 'must be a string');
+
+    const hotspot: ProductHotspot = {
+      id: h.id,
+      position: vec3(h.position, `${path}.position`, 'in model coordinates'),
+      title: h.title,
+    };
+    if (h.body !== undefined) hotspot.body = h.body;
+    return hotspot;
+  });
+}
+
+function parseProduct(raw: unknown, path: string): HeroProduct {
+  if (!isObject(raw)) fail(path, 'must be an object');
+  if (typeof raw.id !== 'string' || !ID_RE.test(raw.id)) fail(`${path}.id`, 'must be lowercase letters, digits and dashes');
+  if (typeof raw.name !== 'string' || !raw.name.trim()) fail(`${path}.name`, 'must be a non-empty string');
+
+  const product: HeroProduct = {
+    id: raw.id,
+    name: raw.name,
+    model: assetPath(raw.model, `${path}.model`, ['.glb']),
+  };
+
+  if (raw.poster !== undefined) {
+    product.poster = assetPath(raw.poster, `${path}.poster`, ['.png', '.jpg', '.jpeg', '.webp', '.avif']);
+  }
+
+  const scale = optionalNumber(raw.scale, `${path}.scale`, 0.1);
+  if (scale !== undefined) product.scale = scale;
+  const speed = optionalNumber(raw.autoRotateSpeed, `${path}.autoRotateSpeed`, 0);
+  if (speed !== undefined) product.autoRotateSpeed = speed;
+
+  if (raw.lighting !== undefined) {
+    if (!LIGHTING_PRESETS.includes(raw.lighting as LightingPreset)) {
+      fail(`${path}.lighting`, `must be one of ${LIGHTING_PRESETS.join(', ')}`);
+    }
+    product.lighting = raw.lighting as LightingPreset;
+  }
+
+  if (raw.orientation !== undefined) product.orientation = vec3(raw.orientation, `${path}.orientation`, 'in degrees');
+  if (raw.hotspots !== undefined) product.hotspots = parseHotspots(raw.hotspots, `${path}.hotspots`);
+
+  return product;
+}
+
+/**
+ * Validates hero product content: every product a drop can show, keyed by
+ * id. Asset paths are only checked for shape here; whether the files exist
+ * is checked at build time (next.config.ts).
+ */
+export function parseProducts(raw: unknown): HeroProduct[] {
+  if (!isObject(raw)) fail('content', 'must be an object');
+  if (!Array.isArray(raw.products) || raw.products.length === 0) fail('products', 'must be a non-empty array');
+  const products = raw.products.map((p, i) => parseProduct(p, `products[${i}]`));
+  if (new Set(products.map((p) => p.id)).size !== products.length) fail('products', 'product ids must be unique');
+  return products;
+}
@@ -0,0 +1,30 @@
+import type { LightingPreset } from '@/lib/graphics/lighting';
+
+/* ─── Hero product content schema (src/content/product.json) ─── */
+
+/** A 3D-anchored note the hero viewer shows in inspect mode. */
+export interface ProductHotspot {
+  id: string;
+  /** Anchor in the model's own GLB coordinates, so it follows orientation and scale. */
+  position: [number, number, number];
+  title: string;
+  body?: string;
+}
+
+export interface HeroProduct {
+  /** What DROP_PRODUCT picks this product by. */
+  id: string;
+  name: string;
+  /** Path under public/, e.g. "/models/banana.glb". Checked at build time. */
+  model: string;
+  /** Path under public/; shown while the model loads and when WebGL is unavailable. */
+  poster?: string;
+  /** Size of the model's longest side in scene units. */
+  scale?: number;
+  /** Degrees per second; 0 turns auto-rotate off. */
+  autoRotateSpeed?: number;
+  lighting?: LightingPreset;
+  /** Euler rotation in degrees applied before auto-rotate. */
+  orientation?: [number, number, number];
+  hotspots?: ProductHotspot[];
+}
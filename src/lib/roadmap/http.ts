@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { RoadmapValidationError } from './schema';
+import { RoadmapConflictError } from './store';
+
+/* ─── Shared error shape for the /api/roadmap route handlers ─── */
+
+export function errorResponse(err: unknown) {
+  if (err instanceof RoadmapValidationError) {
+    return NextResponse.json({ error: { code: 'invalid_roadmap', message: err.message } }, { status: 400 });
+  }
+  if (err instanceof RoadmapConflictError) {
+    return NextResponse.json({ error: { code: 'version_conflict', message: err.message } }, { status: 409 });
+  }
+  console.error('Roadmap route failed:', err);
+  return NextResponse.json(
+    { error: { code: 'store_error', message: 'Could not read or write the roadmap store' } },
+    { status: 500 }
+  );
+}
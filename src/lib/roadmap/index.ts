@@ -0,0 +1,8 @@
+import content from '@/content/roadmap.json';
+import { parseRoadmap } from './schema';
+
+export * from './types';
+export { parseRoadmap, phaseHeading, RoadmapValidationError } from './schema';
+
+/** Roadmap shipped with the build, validated once at import so a bad edit fails loudly. */
+export const roadmap = parseRoadmap(content);
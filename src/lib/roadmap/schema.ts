@@ -0,0 +1,95 @@
+import type { Roadmap, RoadmapItem, RoadmapItemStatus, RoadmapPhase } from './types';
+
+const STATUSES: RoadmapItemStatus[] = ['done', 'in-progress', 'planned'];
+
+export class RoadmapValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RoadmapValidationError';
+  }
+}
+
+function fail(path: string, message: string): never {
+  throw new RoadmapValidationError(`${path}: ${message}`);
+}
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null && !Array.isArray(v);
+}
+
+function optionalString(v: unknown, path: string): string | undefined {
+  if (v === undefined || v === '') return undefined;
+  if (typeof v !== 'string') fail(path, 'must be a string');
+  return v;
+}
+
+// Links are rendered as hrefs, so anything but a web address (javascript:, data:) is refused
+function optionalLink(v: unknown, path: string): string | undefined {
+  const link = optionalString(v, path);
+  if (link === undefined) return undefined;
+  let url: URL;
+  try {
+    url = new URL(link);
+  } catch (_) {
+    fail(path, 'must be an absolute URL');
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') fail(path, 'must be an http(s) URL');
+  return link;
+}
+
+function requiredString(v: unknown, path: string): string {
+  if (typeof v !== 'string' || !v.trim()) fail(path, 'must be a non-empty string');
+  return v;
+}
+
+function parseItem(raw: unknown, path: string): RoadmapItem {
+  if (!isObject(raw)) fail(path, 'must be an object');
+  const status = raw.status as RoadmapItemStatus;
+  if (!STATUSES.includes(status)) fail(`${path}.status`, `must be one of ${STATUSES.join(', ')}`);
+  const item: RoadmapItem = {
+    id: requiredString(raw.id, `${path}.id`),
+    label: requiredString(raw.label, `${path}.label`),
+    status,
+  };
+  const date = optionalString(raw.date, `${path}.date`);
+  const link = optionalLink(raw.link, `${path}.link`);
+  if (date) item.date = date;
+  if (link) item.link = link;
+  return item;
+}
+
+function parsePhase(raw: unknown, path: string): RoadmapPhase {
+  if (!isObject(raw)) fail(path, 'must be an object');
+  if (!Array.isArray(raw.items)) fail(`${path}.items`, 'must be an array');
+  const items = raw.items.map((item, i) => parseItem(item, `${path}.items[${i}]`));
+  const ids = new Set(items.map((i) => i.id));
+  if (ids.size !== items.length) fail(`${path}.items`, 'item ids must be unique');
+
+  const phase: RoadmapPhase = { id: requiredString(raw.id, `${path}.id`), items };
+  const title = optionalString(raw.title, `${path}.title`);
+  if (title) phase.title = title;
+  return phase;
+}
+
+/**
+ * Validates roadmap content. Errors name the offending field
+ * (e.g. `phases[1].items[0].status`) so whoever edited the JSON can find it.
+ */
+export function parseRoadmap(raw: unknown): Roadmap {
+  if (!isObject(raw)) fail('roadmap', 'must be an object');
+  if (!Array.isArray(raw.phases)) fail('phases', 'must be an array');
+  const phases = raw.phases.map((p, i) => parsePhase(p, `phases[${i}]`));
+  if (new Set(phases.map((p) => p.id)).size !== phases.length) fail('phases', 'phase ids must be unique');
+
+  const activePhaseId = raw.activePhaseId ?? null;
+  if (activePhaseId !== null && !phases.some((p) => p.id === activePhaseId)) {
+    fail('activePhaseId', `no phase with id "${String(activePhaseId)}"`);
+  }
+  return { activePhaseId: activePhaseId as string | null, phases };
+}
+
+export function phaseHeading(roadmap: Roadmap, index: number): string {
+  const phase = roadmap.phases[index];
+  const suffix = [phase.title, phase.id === roadmap.activePhaseId ? '(NOW)' : null].filter(Boolean).join(' ');
+  return suffix ? `Phase ${index + 1} — ${suffix}` : `Phase ${index + 1}`;
+}
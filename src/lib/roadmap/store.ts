@@ -0,0 +1,111 @@
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import { roadmap as bundledRoadmap } from './index';
+import { parseRoadmap } from './schema';
+import type { Roadmap } from './types';
+
+/*
+ * File-backed roadmap store for the admin editor. The bundled
+ * src/content/roadmap.json is the seed; once an admin saves, the copy in the
+ * data directory wins. Every save pushes the previous version onto a capped
+ * history so a bad edit can be rolled back.
+ */
+
+export interface RoadmapRevision {
+  version: number;
+  savedAt: string;
+  note: string;
+  roadmap: Roadmap;
+}
+
+export class RoadmapConflictError extends Error {
+  constructor(readonly currentVersion: number) {
+    super(`Roadmap changed since you loaded it (now at version ${currentVersion})`);
+    this.name = 'RoadmapConflictError';
+  }
+}
+
+const HISTORY_LIMIT = 50;
+
+function dataDir() {
+  return path.resolve(process.env.ROADMAP_DATA_DIR ?? '.data');
+}
+
+async function readJsonFile<T>(file: string): Promise<T | null> {
+  try {
+    return JSON.parse(await readFile(file, 'utf8')) as T;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw err;
+  }
+}
+
+async function writeJsonFile(file: string, data: unknown) {
+  await mkdir(path.dirname(file), { recursive: true });
+  await writeFile(file, JSON.stringify(data, null, 2));
+}
+
+const currentFile = () => path.join(dataDir(), 'roadmap.json');
+const historyFile = () => path.join(dataDir(), 'roadmap-history.json');
+
+export async function getCurrentRevision(): Promise<RoadmapRevision> {
+  const stored = await readJsonFile<RoadmapRevision>(currentFile());
+  if (!stored) return { version: 0, savedAt: new Date(0).toISOString(), note: 'Bundled content', roadmap: bundledRoadmap };
+  return { ...stored, roadmap: parseRoadmap(stored.roadmap) };
+}
+
+export async function getHistory(): Promise<RoadmapRevision[]> {
+  return (await readJsonFile<RoadmapRevision[]>(historyFile())) ?? [];
+}
+
+const globalForStore = globalThis as unknown as { roadmapWriteQueue?: Promise<unknown> };
+
+function serialise<T>(fn: () => Promise<T>): Promise<T> {
+  const run = (globalForStore.roadmapWriteQueue ?? Promise.resolve()).then(fn);
+  globalForStore.roadmapWriteQueue = run.catch(() => { });
+  return run;
+}
+
+/** Writes `roadmap` as the version after `current`. Call inside serialise. */
+async function writeNext(current: RoadmapRevision, roadmap: Roadmap, note: string): Promise<RoadmapRevision> {
+  const history = await getHistory();
+  history.unshift(current);
+  await writeJsonFile(historyFile(), history.slice(0, HISTORY_LIMIT));
+
+  const next: RoadmapRevision = {
+    version: current.version + 1,
+    savedAt: new Date().toISOString(),
+    note,
+    roadmap,
+  };
+  await writeJsonFile(currentFile(), next);
+  return next;
+}
+
+/**
+ * Validates and saves `raw` as the next version. `baseVersion` is the version
+ * the editor loaded; a mismatch means someone else saved in between.
+ */
+export function saveRoadmap(raw: unknown, baseVersion: number, note: string): Promise<RoadmapRevision> {
+  const roadmap = parseRoadmap(raw);
+  return serialise(async () => {
+    const current = await getCurrentRevision();
+    if (current.version !== baseVersion) throw new RoadmapConflictError(current.version);
+    return writeNext(current, roadmap, note);
+  });
+}
+
+/**
+ * Restores an earlier version, or returns null if it isn't in the history.
+ * The rollback itself is saved as a new version, so it can be undone too.
+ * It applies on top of whatever is current when its turn comes, so a save
+ * landing just before it can't turn it into a version conflict.
+ */
+export function rollbackRoadmap(version: number): Promise<RoadmapRevision | null> {
+  return serialise(async () => {
+    const target = (await getHistory()).find((r) => r.version === version);
+    if (!target) return null;
+    const current = await getCurrentRevision();
+    return writeNext(current, parseRoadmap(target.roadmap), `Rolled back to version ${version}`);
+  });
+}
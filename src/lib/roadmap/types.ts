@@ -0,0 +1,24 @@
+/* ─── Roadmap content schema (src/content/roadmap.json) ─── */
+
+export type RoadmapItemStatus = 'done' | 'in-progress' | 'planned';
+
+export interface RoadmapItem {
+  id: string;
+  label: string;
+  status: RoadmapItemStatus;
+  /** Free-form, e.g. "Q3 2026" or an ISO date. */
+  date?: string;
+  link?: string;
+}
+
+export interface RoadmapPhase {
+  id: string;
+  /** Shown after "Phase N —". Optional for the active phase, which reads "(NOW)". */
+  title?: string;
+  items: RoadmapItem[];
+}
+
+export interface Roadmap {
+  activePhaseId: string | null;
+  phases: RoadmapPhase[];
+}
@@ -0,0 +1,26 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { roadmap as bundledRoadmap } from './index';
+import type { Roadmap } from './types';
+
+/**
+ * Roadmap for the landing page. Renders the bundled content straight away,
+ * then swaps in whatever the admin editor has saved since the last deploy.
+ */
+export function useRoadmap(): Roadmap {
+  const [roadmap, setRoadmap] = useState<Roadmap>(bundledRoadmap);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch('/api/roadmap', { cache: 'no-store' })
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data: { roadmap: Roadmap } | null) => {
+        if (!cancelled && data) setRoadmap(data.roadmap);
+      })
+      .catch(() => { /* keep bundled content */ });
+    return () => { cancelled = true; };
+  }, []);
+
+  return roadmap;
+}
@@ -0,0 +1,45 @@
+/* ─── Site identity from NEXT_PUBLIC_SITE_* env ─── */
+
+export interface SiteConfig {
+  name: string;
+  description: string;
+  url: URL;
+}
+
+const DEFAULTS = {
+  name: 'Bored Vape',
+  description: 'DON\'T PEEL — A limited drop',
+  url: 'http://localhost:3000',
+};
+
+function readUrl(raw: string | undefined): URL {
+  const value = raw?.trim() || DEFAULTS.url;
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch (_) {
+    throw new Error(`NEXT_PUBLIC_SITE_URL must be an absolute URL, got "${value}"`);
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    throw new Error(`NEXT_PUBLIC_SITE_URL must be http(s), got "${value}"`);
+  }
+  return url;
+}
+
+/**
+ * Read once at build time (NEXT_PUBLIC_* values are inlined). A production
+ * build without NEXT_PUBLIC_SITE_URL would publish localhost canonicals and
+ * share links, so that case fails the build instead.
+ */
+function loadSiteConfig(): SiteConfig {
+  if (process.env.NODE_ENV === 'production' && !process.env.NEXT_PUBLIC_SITE_URL) {
+    throw new Error('NEXT_PUBLIC_SITE_URL must be set for production builds');
+  }
+  return {
+    name: process.env.NEXT_PUBLIC_SITE_NAME?.trim() || DEFAULTS.name,
+    description: process.env.NEXT_PUBLIC_SITE_DESCRIPTION?.trim() || DEFAULTS.description,
+    url: readUrl(process.env.NEXT_PUBLIC_SITE_URL),
+  };
+}
+
+export const site = loadSiteConfig();
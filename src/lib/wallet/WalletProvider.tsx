@@ -0,0 +1,125 @@
+'use client';
+
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { injectedConnector } from './connectors/injected';
+import { mockConnector } from './connectors/mock';
+import { WalletError, type ConnectorId, type WalletConnector, type WalletSession } from './types';
+
+const CONNECTORS: WalletConnector[] = [injectedConnector, mockConnector];
+const SESSION_KEY = 'bv.walletSession';
+
+type WalletStatus = 'restoring' | 'disconnected' | 'connecting' | 'connected';
+
+interface WalletContextValue {
+  status: WalletStatus;
+  address: string | null;
+  connector: WalletConnector | null;
+  /** Connectors usable in this browser, in order of preference. */
+  connectors: WalletConnector[];
+  connect(connectorId?: ConnectorId): Promise<string>;
+  disconnect(): Promise<void>;
+}
+
+const WalletContext = createContext<WalletContextValue | null>(null);
+
+function readSession(): WalletSession | null {
+  try {
+    const raw = localStorage.getItem(SESSION_KEY);
+    return raw ? JSON.parse(raw) as WalletSession : null;
+  } catch (_) {
+    return null;
+  }
+}
+
+function writeSession(session: WalletSession | null) {
+  try {
+    if (session) localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+    else localStorage.removeItem(SESSION_KEY);
+  } catch (_) { /* storage disabled, session just won't survive a reload */ }
+}
+
+export function WalletProvider({ children }: { children: React.ReactNode }) {
+  const [status, setStatus] = useState<WalletStatus>('restoring');
+  const [session, setSession] = useState<WalletSession | null>(null);
+  const [connectors, setConnectors] = useState<WalletConnector[]>([]);
+
+  const connector = useMemo(
+    () => CONNECTORS.find((c) => c.id === session?.connectorId) ?? null,
+    [session]
+  );
+
+  const applySession = useCallback((next: WalletSession | null) => {
+    setSession(next);
+    setStatus(next ? 'connected' : 'disconnected');
+    writeSession(next);
+  }, []);
+
+  // Restore the last session silently; availability is only known in the browser
+  useEffect(() => {
+    setConnectors(CONNECTORS.filter((c) => c.isAvailable()));
+
+    const saved = readSession();
+    const savedConnector = saved && CONNECTORS.find((c) => c.id === saved.connectorId);
+    if (!saved || !savedConnector?.isAvailable()) {
+      applySession(null);
+      return;
+    }
+    let cancelled = false;
+    savedConnector.reconnect().then((address) => {
+      if (cancelled) return;
+      applySession(address ? { connectorId: savedConnector.id, address } : null);
+    });
+    return () => { cancelled = true; };
+  }, [applySession]);
+
+  // Follow account switches made inside the wallet itself
+  useEffect(() => {
+    if (!connector) return;
+    return connector.onAccountChanged((address) => {
+      applySession(address ? { connectorId: connector.id, address } : null);
+    });
+  }, [connector, applySession]);
+
+  const connect = useCallback(async (connectorId?: ConnectorId) => {
+    const target = connectorId
+      ? connectors.find((c) => c.id === connectorId)
+      : connectors[0];
+    if (!target) throw new WalletError('No wallet available in this browser');
+
+    setStatus('connecting');
+    try {
+      const address = await target.connect();
+      applySession({ connectorId: target.id, address });
+      return address;
+    } catch (err) {
+      setStatus(session ? 'connected' : 'disconnected');
+      throw err;
+    }
+  }, [connectors, session, applySession]);
+
+  const disconnect = useCallback(async () => {
+    await connector?.disconnect();
+    applySession(null);
+  }, [connector, applySession]);
+
+  const value = useMemo<WalletContextValue>(() => ({
+    status,
+    address: session?.address ?? null,
+    connector,
+    connectors,
+    connect,
+    disconnect,
+  }), [status, session, connector, connectors, connect, disconnect]);
+
+  return <WalletContext.Provider value={value}>{children}</WalletContext.Provider>;
+}
+
+export function useWallet(): WalletContextValue {
+  const ctx = useContext(WalletContext);
+  if (!ctx) throw new Error('useWallet must be used inside <WalletProvider>');
+  return ctx;
+}
+
+export function truncateAddress(address: string): string {
+  return `${address.slice(0, 6)}…${address.slice(-4)}`;
+}
@@ -0,0 +1,62 @@
+import { WalletError, type WalletConnector } from '../types';
+
+interface Eip1193Provider {
+  request(args: { method: string; params?: unknown[] }): Promise<unknown>;
+  on?(event: string, listener: (...args: unknown[]) => void): void;
+  removeListener?(event: string, listener: (...args: unknown[]) => void): void;
+}
+
+function getProvider(): Eip1193Provider | undefined {
+  if (typeof window === 'undefined') return undefined;
+  return (window as unknown as { ethereum?: Eip1193Provider }).ethereum;
+}
+
+function firstAccount(result: unknown): string | null {
+  return Array.isArray(result) && typeof result[0] === 'string' ? result[0].toLowerCase() : null;
+}
+
+/** Browser extension wallets exposing an EIP-1193 `window.ethereum`. */
+export const injectedConnector: WalletConnector = {
+  id: 'injected',
+  name: 'Browser Wallet',
+
+  isAvailable() {
+    return !!getProvider();
+  },
+
+  async connect() {
+    const provider = getProvider();
+    if (!provider) throw new WalletError('No browser wallet found');
+    let accounts: unknown;
+    try {
+      accounts = await provider.request({ method: 'eth_requestAccounts' });
+    } catch (_) {
+      throw new WalletError('Wallet connection was rejected');
+    }
+    const address = firstAccount(accounts);
+    if (!address) throw new WalletError('Wallet returned no accounts');
+    return address;
+  },
+
+  async reconnect() {
+    const provider = getProvider();
+    if (!provider) return null;
+    try {
+      return firstAccount(await provider.request({ method: 'eth_accounts' }));
+    } catch (_) {
+      return null;
+    }
+  },
+
+  async disconnect() {
+    // EIP-1193 has no disconnect; forgetting the session on our side is all we can do
+  },
+
+  onAccountChanged(listener) {
+    const provider = getProvider();
+    if (!provider?.on) return () => { };
+    const handler = (accounts: unknown) => listener(firstAccount(accounts));
+    provider.on('accountsChanged', handler);
+    return () => provider.removeListener?.('accountsChanged', handler);
+  },
+};
@@ -0,0 +1,41 @@
+import type { WalletConnector } from '../types';
+
+const STORAGE_KEY = 'bv.mockWallet';
+
+function randomAddress() {
+  const bytes = new Uint8Array(20);
+  crypto.getRandomValues(bytes);
+  return '0x' + Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Fake wallet for local runs and tests. Hands out one random address per
+ * browser and keeps it, so reloads and receipts line up with the same wallet.
+ */
+export const mockConnector: WalletConnector = {
+  id: 'mock',
+  name: 'Test Wallet',
+
+  isAvailable() {
+    return process.env.NODE_ENV !== 'production' || process.env.NEXT_PUBLIC_ENABLE_MOCK_WALLET === '1';
+  },
+
+  async connect() {
+    let address = localStorage.getItem(STORAGE_KEY);
+    if (!address) {
+      address = randomAddress();
+      localStorage.setItem(STORAGE_KEY, address);
+    }
+    return address;
+  },
+
+  async reconnect() {
+    return localStorage.getItem(STORAGE_KEY);
+  },
+
+  async disconnect() { },
+
+  onAccountChanged() {
+    return () => { };
+  },
+};
@@ -0,0 +1,29 @@
+/* ─── Wallet connectors ─── */
+
+export type ConnectorId = 'injected' | 'mock';
+
+export interface WalletConnector {
+  readonly id: ConnectorId;
+  readonly name: string;
+  /** Whether this connector can be offered in the current browser. */
+  isAvailable(): boolean;
+  /** Prompts the user if needed and resolves with the selected address. */
+  connect(): Promise<string>;
+  /** Restores a previous session without prompting; null if the wallet no longer grants access. */
+  reconnect(): Promise<string | null>;
+  disconnect(): Promise<void>;
+  /** Returns an unsubscribe function. `null` means the wallet disconnected itself. */
+  onAccountChanged(listener: (address: string | null) => void): () => void;
+}
+
+export interface WalletSession {
+  connectorId: ConnectorId;
+  address: string;
+}
+
+export class WalletError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WalletError';
+  }
+}